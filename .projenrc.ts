@@ -50,10 +50,14 @@ const project = new awscdk.AwsCdkConstructLibrary({
   // dependency config
   jsiiVersion: '~5.0.0',
   cdkVersion: '2.99.1',
-  bundledDeps: ['esbuild'] /* Runtime dependencies of this module. */,
+  bundledDeps: ['esbuild', 'micromatch@^4.0.5'] /* Runtime dependencies of this module. */,
   devDeps: [
     '@aws-crypto/sha256-js',
+    '@aws-sdk/client-cloudfront@^3.400.0',
+    '@aws-sdk/client-dynamodb@^3.400.0',
     '@aws-sdk/client-s3',
+    '@aws-sdk/client-secrets-manager@^3.400.0',
+    '@aws-sdk/client-sqs@^3.400.0',
     '@smithy/signature-v4',
     '@types/adm-zip',
     '@types/aws-lambda',
@@ -63,7 +67,6 @@ const project = new awscdk.AwsCdkConstructLibrary({
     'aws-lambda',
     'constructs',
     'jszip',
-    'micromatch',
     'mime-types',
     'undici',
   ] /* Build dependencies for this module. */,
@@ -71,8 +74,25 @@ const project = new awscdk.AwsCdkConstructLibrary({
   sampleCode: false, // do not generate sample test files
 });
 
+// colocated tests may import test-only devDependencies
+project.eslint?.allowDevDeps('src/**/*.test.ts');
+
 project.bundler.addBundle('./src/lambdas/nextjs-bucket-deployment.ts', commonBundlingOptions);
 project.bundler.addBundle('./src/lambdas/sign-fn-url.ts', commonBundlingOptions);
+project.bundler.addBundle('./src/lambdas/nextjs-server-substitute.ts', commonBundlingOptions);
+project.bundler.addBundle('./src/lambdas/nextjs-image-pregeneration.ts', commonBundlingOptions);
+project.bundler.addBundle('./src/lambdas/nextjs-image-pregeneration-worker.ts', {
+  ...commonBundlingOptions,
+  // sharp is provided by sharp layer
+  externals: [...commonBundlingOptions.external, 'sharp'],
+});
+
+project.bundler.addBundle('./src/lambdas/nextjs-revalidation-endpoint.ts', commonBundlingOptions);
+project.bundler.addBundle('./src/lambdas/nextjs-revalidation-schedule.ts', commonBundlingOptions);
+project.bundler.addBundle('./src/lambdas/nextjs-revalidation-queue.ts', commonBundlingOptions);
+project.bundler.addBundle('./src/lambdas/nextjs-image-cache.ts', commonBundlingOptions);
+project.bundler.addBundle('./src/lambdas/nextjs-origin-verify.ts', commonBundlingOptions);
+project.bundler.addBundle('./src/lambdas/nextjs-origin-verify-rotation.ts', commonBundlingOptions);
 
 // const e2eTestsWorkflow = project.github?.addWorkflow('e2e-tests');
 // e2eTestsWorkflow?.on({ pullRequest: { branches: ['main'] } });
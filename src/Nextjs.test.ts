@@ -0,0 +1,63 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
+import { Nextjs, NextjsProps } from './Nextjs';
+import { NextjsRevalidationMode } from './NextjsRevalidation';
+import { FUNCTION_CODE, useNextjsApps } from './test-utils';
+
+describe('Nextjs', () => {
+  const createNextjsApp = useNextjsApps();
+
+  function createNextjs(props: Partial<NextjsProps> = {}, files: Record<string, string> = {}) {
+    const nextjsPath = createNextjsApp({
+      '.open-next/server-function/index.mjs': FUNCTION_CODE,
+      '.open-next/image-optimization-function/index.mjs': FUNCTION_CODE,
+      '.open-next/revalidation-function/index.mjs': FUNCTION_CODE,
+      '.open-next/assets/favicon.ico': '',
+      '.open-next/cache/build/index.cache': '',
+      '.next/BUILD_ID': 'build',
+      ...files,
+    });
+    const stack = new Stack(new App(), 'Stack', { env: { region: 'us-east-1' } });
+    new Nextjs(stack, 'Nextjs', { nextjsPath, skipBuild: true, quiet: true, ...props });
+    return Template.fromStack(stack);
+  }
+
+  const revalidationFunction = { Properties: { Description: 'Next.js Queue Revalidation Function' } };
+  const prerenderManifest = (initialRevalidateSeconds: number | false) =>
+    JSON.stringify({ routes: { '/': { initialRevalidateSeconds } } });
+
+  describe('revalidation', () => {
+    test('should skip revalidation when no route revalidates', () => {
+      const template = createNextjs({}, { '.next/prerender-manifest.json': prerenderManifest(false) });
+      expect(template.findResources('AWS::Lambda::Function', revalidationFunction)).toEqual({});
+      template.resourceCountIs('AWS::SQS::Queue', 0);
+    });
+
+    test('should provision revalidation when a route revalidates', () => {
+      const template = createNextjs({}, { '.next/prerender-manifest.json': prerenderManifest(60) });
+      template.resourcePropertiesCountIs('AWS::Lambda::Function', revalidationFunction.Properties, 1);
+    });
+
+    test('should provision revalidation when ALWAYS or when unable to detect', () => {
+      createNextjs(
+        { revalidation: NextjsRevalidationMode.ALWAYS },
+        { '.next/prerender-manifest.json': prerenderManifest(false) }
+      ).resourcePropertiesCountIs('AWS::Lambda::Function', revalidationFunction.Properties, 1);
+      createNextjs().resourcePropertiesCountIs('AWS::Lambda::Function', revalidationFunction.Properties, 1);
+    });
+
+    test('should skip revalidation when NEVER', () => {
+      const template = createNextjs(
+        { revalidation: NextjsRevalidationMode.NEVER },
+        { '.next/prerender-manifest.json': prerenderManifest(60) }
+      );
+      expect(template.findResources('AWS::Lambda::Function', revalidationFunction)).toEqual({});
+    });
+
+    test('should reject revalidation options when NEVER', () => {
+      expect(() => createNextjs({ revalidation: NextjsRevalidationMode.NEVER, revalidationEndpoint: {} })).toThrow(
+        '"revalidation" is NEVER but "revalidationEndpoint", "scheduledRevalidations", "queue" or "table" is set.'
+      );
+    });
+  });
+});
@@ -2,18 +2,35 @@ import * as fs from 'node:fs';
 import * as os from 'os';
 import * as path from 'path';
 import { Distribution } from 'aws-cdk-lib/aws-cloudfront';
+import { ITable } from 'aws-cdk-lib/aws-dynamodb';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import { FunctionOptions } from 'aws-cdk-lib/aws-lambda';
 import * as s3 from 'aws-cdk-lib/aws-s3';
+import { IQueue } from 'aws-cdk-lib/aws-sqs';
 import { Construct } from 'constructs';
 import { BaseSiteDomainProps, NextjsBaseProps } from './NextjsBase';
 import { NextjsBuild } from './NextjsBuild';
 import { NextjsDistribution, NextjsDistributionProps } from './NextjsDistribution';
-import { NextjsImage } from './NextjsImage';
+import { NextjsImage, NextjsImageCacheProps } from './NextjsImage';
+import { NextjsImagePregeneration, NextjsImagePregenerationOptions } from './NextjsImagePregeneration';
 import { NextjsInvalidation } from './NextjsInvalidation';
-import { NextjsRevalidation } from './NextjsRevalidation';
-import { NextjsServer } from './NextjsServer';
+import { NextjsMaintenance, NextjsMaintenanceOptions } from './NextjsMaintenance';
+import { NextjsOriginVerify, NextjsOriginVerifyOptions } from './NextjsOriginVerify';
+import {
+  NextjsRevalidation,
+  NextjsRevalidationEndpointOptions,
+  NextjsRevalidationMode,
+  NextjsRevalidationQueueOptions,
+  NextjsScheduledRevalidation,
+} from './NextjsRevalidation';
+import {
+  NextjsServer,
+  NextjsServerDeploymentConfig,
+  NextjsServerPackaging,
+  NextjsServerProvisionedConcurrencyProps,
+} from './NextjsServer';
 import { NextjsStaticAssets, NextjsStaticAssetsProps } from './NextjsStaticAssets';
+import { NextjsWarmer, NextjsWarmerOptions } from './NextjsWarmer';
 
 export interface NextjsDomainProps extends BaseSiteDomainProps {}
 
@@ -45,6 +62,18 @@ export interface NextjsProps extends NextjsBaseProps {
    * Optional S3 Bucket to use, defaults to assets bucket
    */
   readonly imageOptimizationBucket?: s3.IBucket;
+  /**
+   * Persist optimized images to S3 so CloudFront cache misses don't re-run
+   * sharp. Disabled if omitted.
+   */
+  readonly imageCache?: NextjsImageCacheProps;
+  /**
+   * Optimize images matching globs at deploy time and upload them to
+   * `imageCache` so first visitors don't wait for sharp. Images are optimized
+   * asynchronously by a queue worker so deployment doesn't wait for them.
+   * Requires `imageCache`.
+   */
+  readonly imagePregeneration?: NextjsImagePregenerationOptions;
   /**
    * Allows you to override defaults for the resources created by this
    * construct.
@@ -56,6 +85,19 @@ export interface NextjsProps extends NextjsBaseProps {
    * @default false
    */
   readonly skipBuild?: boolean;
+  /**
+   * Skips running Next.js build when a hash of Next.js sources, lockfiles,
+   * `environment` and `buildCommand` matches the hash of the previous build.
+   * The hash is stored in `.open-next`. Only files within `nextjsPath` are
+   * hashed so monorepo packages outside of it won't invalidate the cache.
+   * @default false
+   */
+  readonly buildCache?: boolean;
+  /**
+   * Runs Next.js build even if `buildCache` is enabled and nothing has changed.
+   * @default false
+   */
+  readonly forceBuild?: boolean;
   /**
    * Optional value to prefix the Next.js site under a /prefix path on CloudFront.
    * Usually used when you deploy multiple Next.js sites on same domain using /sub-path
@@ -71,6 +113,70 @@ export interface NextjsProps extends NextjsBaseProps {
    * be used to add Next.js behaviors and origins onto. Useful with `basePath`.
    */
   readonly distribution?: Distribution;
+  /**
+   * Provisioned concurrency and Application Auto Scaling for the server
+   * function's `live` alias.
+   */
+  readonly provisionedConcurrency?: NextjsServerProvisionedConcurrencyProps;
+  /**
+   * Gradually shift traffic to new server function versions with CodeDeploy,
+   * rolling back automatically if the deployment fails or alarms.
+   */
+  readonly deploymentConfig?: NextjsServerDeploymentConfig;
+  /**
+   * Package server function as zip or container image. Use container image
+   * if server function exceeds Lambda's 250 MB unzipped limit.
+   * @default NextjsServerPackaging.ZIP
+   */
+  readonly packaging?: NextjsServerPackaging;
+  /**
+   * Whether to provision revalidation queue, table and functions. `AUTO`
+   * provisions them if app uses ISR or cache tags, or if `revalidationEndpoint`,
+   * `scheduledRevalidations`, `queue` or `table` are set. Use `ALWAYS` if
+   * `revalidatePath` or `revalidateTag` are only called at runtime.
+   * @default NextjsRevalidationMode.AUTO
+   */
+  readonly revalidation?: NextjsRevalidationMode;
+  /**
+   * Dead-letter queue, batching and alarm settings of the revalidation queue.
+   */
+  readonly revalidationQueue?: NextjsRevalidationQueueOptions;
+  /**
+   * Existing FIFO queue to use for revalidation instead of creating one.
+   */
+  readonly queue?: IQueue;
+  /**
+   * Existing DynamoDB table to use for revalidation instead of creating one.
+   */
+  readonly table?: ITable;
+  /**
+   * Expose endpoint to revalidate paths and tags on demand. With `secret` it's
+   * routed through CloudFront, otherwise it's only reachable through
+   * `revalidation.endpointUrl` with IAM auth. Disabled if omitted.
+   */
+  readonly revalidationEndpoint?: NextjsRevalidationEndpointOptions;
+  /**
+   * Revalidate paths and tags on a schedule. `host` defaults to custom domain
+   * or CloudFront domain.
+   */
+  readonly scheduledRevalidations?: NextjsScheduledRevalidation[];
+  /**
+   * Send secret `x-origin-verify` header from CloudFront to server, image and
+   * revalidation endpoint functions which reject requests without it. Prevents
+   * bypassing CloudFront, WAF and caching through public function URLs.
+   * Disabled if omitted.
+   */
+  readonly originVerify?: NextjsOriginVerifyOptions;
+  /**
+   * Create CloudFront KeyValueStore flag that turns maintenance mode on or off
+   * without redeploying. Disabled if omitted.
+   */
+  readonly maintenance?: NextjsMaintenanceOptions;
+  /**
+   * Periodically invoke the server function to keep instances warm and reduce
+   * cold starts. Disabled if omitted.
+   */
+  readonly warm?: NextjsWarmerOptions;
 }
 
 /**
@@ -94,9 +200,10 @@ export class Nextjs extends Construct {
   public serverFunction: NextjsServer;
 
   /**
-   * The image optimization handler lambda function.
+   * The image optimization handler lambda function. Not created if
+   * `images.unoptimized` is set in `next.config.js`.
    */
-  public imageOptimizationFunction: NextjsImage;
+  public imageOptimizationFunction?: NextjsImage;
 
   /**
    * Built NextJS project output.
@@ -125,9 +232,30 @@ export class Nextjs extends Construct {
   }
 
   /**
-   * Revalidation handler and queue.
+   * Revalidation handler and queue. Undefined if revalidation isn't provisioned.
+   * @see `NextjsProps.revalidation`
+   */
+  public revalidation?: NextjsRevalidation;
+
+  /**
+   * Optimizes images at deploy time. Only defined if `imagePregeneration` is set.
    */
-  public revalidation: NextjsRevalidation;
+  public imagePregeneration?: NextjsImagePregeneration;
+
+  /**
+   * Secret sent to server, image and revalidation endpoint functions. Only defined if `originVerify` is set.
+   */
+  public originVerify?: NextjsOriginVerify;
+
+  /**
+   * Maintenance mode flag. Only defined if `maintenance` is set.
+   */
+  public maintenance?: NextjsMaintenance;
+
+  /**
+   * Keeps server function warm. Only defined if `warm` is set.
+   */
+  public warmer?: NextjsWarmer;
 
   public lambdaFunctionUrl!: lambda.FunctionUrl;
   public imageOptimizationLambdaFunctionUrl!: lambda.FunctionUrl;
@@ -146,27 +274,59 @@ export class Nextjs extends Construct {
       basePath: props.basePath,
     });
 
+    if (props.originVerify) {
+      this.originVerify = new NextjsOriginVerify(this, 'OriginVerify', { ...props, ...props.originVerify });
+    }
+
     this.serverFunction = new NextjsServer(this, 'Server', {
       ...props,
       tempBuildDir: this.tempBuildDir,
       nextBuild: this.nextBuild,
       lambda: props.defaults?.lambda,
       staticAssetBucket: this.staticAssets.bucket,
+      originVerifySecret: this.originVerify?.secret,
     });
     // build image optimization
-    this.imageOptimizationFunction = new NextjsImage(this, 'ImgOptFn', {
-      ...props,
-      nextBuild: this.nextBuild,
-      bucket: props.imageOptimizationBucket || this.bucket,
-      lambdaOptions: props.defaults?.lambda,
-    });
+    if (!this.nextBuild.nextImagesConfig?.unoptimized) {
+      this.imageOptimizationFunction = new NextjsImage(this, 'ImgOptFn', {
+        ...props,
+        nextBuild: this.nextBuild,
+        bucket: props.imageOptimizationBucket || this.bucket,
+        lambdaOptions: props.defaults?.lambda,
+        originVerifySecret: this.originVerify?.secret,
+      });
+      const { imageCacheBucket, imageCacheKeyPrefix } = this.imageOptimizationFunction;
+      if (imageCacheBucket) {
+        imageCacheBucket.grantReadWrite(this.imageOptimizationFunction, `${imageCacheKeyPrefix}/*`);
+      }
+      if (props.imagePregeneration) {
+        this.imagePregeneration = this.createImagePregeneration(props.imagePregeneration);
+      }
+    }
 
     // build revalidation queue and handler function
-    this.revalidation = new NextjsRevalidation(this, 'Revalidation', {
-      ...props,
-      nextBuild: this.nextBuild,
-      serverFunction: this.serverFunction,
-    });
+    if (this.isRevalidationNeeded) {
+      this.revalidation = new NextjsRevalidation(this, 'Revalidation', {
+        ...props,
+        nextBuild: this.nextBuild,
+        serverFunction: this.serverFunction,
+        lambdaOptions: props.defaults?.lambda,
+        originVerifySecret: this.originVerify?.secret,
+      });
+    }
+
+    if (props.warm) {
+      this.warmer = new NextjsWarmer(this, 'Warmer', {
+        ...props,
+        ...props.warm,
+        nextBuild: this.nextBuild,
+        serverFunction: this.serverFunction,
+      });
+    }
+
+    if (props.maintenance) {
+      this.maintenance = new NextjsMaintenance(this, 'Maintenance', { ...props, ...props.maintenance });
+    }
 
     this.distribution = new NextjsDistribution(this, 'Distribution', {
       ...props,
@@ -174,9 +334,17 @@ export class Nextjs extends Construct {
       staticAssetsBucket: this.staticAssets.bucket,
       tempBuildDir: this.tempBuildDir,
       nextBuild: this.nextBuild,
-      serverFunction: this.serverFunction.lambdaFunction,
+      serverFunction: this.serverFunction.alias,
       imageOptFunction: this.imageOptimizationFunction,
+      originVerifyHeaderValue: this.originVerify?.headerValue,
+      maintenance: this.maintenance,
+      revalidationFunction: props.revalidationEndpoint?.secret ? this.revalidation?.endpointFunction : undefined,
+      revalidationPath: props.revalidationEndpoint?.path,
     });
+    this.revalidation?.scheduleFunction?.addEnvironment(
+      'DEFAULT_HOST',
+      this.distribution.customDomainName ?? this.distribution.distributionDomain
+    );
 
     if (!this.props.skipFullInvalidation) {
       new NextjsInvalidation(this, 'Invalidation', {
@@ -186,6 +354,46 @@ export class Nextjs extends Construct {
     }
   }
 
+  private get isRevalidationNeeded(): boolean {
+    const { revalidation = NextjsRevalidationMode.AUTO } = this.props;
+    const isRequested =
+      !!this.props.revalidationEndpoint ||
+      !!this.props.scheduledRevalidations?.length ||
+      !!this.props.queue ||
+      !!this.props.table;
+    if (revalidation === NextjsRevalidationMode.NEVER) {
+      if (isRequested) {
+        throw new Error(
+          '"revalidation" is NEVER but "revalidationEndpoint", "scheduledRevalidations", "queue" or "table" is set.'
+        );
+      }
+      return false;
+    }
+    return revalidation === NextjsRevalidationMode.ALWAYS || isRequested || this.nextBuild.isRevalidationUsed;
+  }
+
+  private createImagePregeneration(options: NextjsImagePregenerationOptions) {
+    const { imageCacheBucket, imageCacheKeyPrefix, sharpLayer } = this.imageOptimizationFunction!;
+    if (!imageCacheBucket || !imageCacheKeyPrefix) {
+      throw new Error('"imagePregeneration" requires "imageCache" to be set.');
+    }
+    if (!sharpLayer) {
+      throw new Error('"imagePregeneration" requires sharp. Set "sharpLayerArn" or "sharpLayerPath".');
+    }
+    const imagePregeneration = new NextjsImagePregeneration(this, 'ImagePregeneration', {
+      ...this.props,
+      ...options,
+      nextBuild: this.nextBuild,
+      staticAssetsBucket: this.staticAssets.bucket,
+      imageCacheBucket,
+      imageCacheKeyPrefix,
+      sharpLayer,
+    });
+    // source images must be uploaded before they're optimized
+    imagePregeneration.node.addDependency(this.staticAssets);
+    return imagePregeneration;
+  }
+
   /**
    * URL of Next.js App.
    */
@@ -37,7 +37,7 @@ export interface NextjsBaseProps {
 
   /**
    * Optional value used to install NextJS node dependencies.
-   * @default 'npx --yes open-next@^2 build'
+   * @default 'npx --yes open-next@^3 build' if `open-next.config.ts` exists in `nextjsPath`, otherwise 'npx --yes open-next@^2 build'
    */
   readonly buildCommand?: string;
 
@@ -48,16 +48,36 @@ export interface NextjsBaseProps {
 
   /**
    * Optional arn for the sharp lambda layer.
-   * If omitted, the layer will be created.
+   * If omitted, the layer will be created from `sharpLayerPath` or the image
+   * optimization function's `node_modules` and shared by all sites in the
+   * stack with the same architecture and sharp version.
    */
   readonly sharpLayerArn?: string;
 
+  /**
+   * Optional path to a vendored arm64 sharp layer: a directory or zip containing
+   * `nodejs/node_modules/sharp`. Ignored if `sharpLayerArn` is set.
+   */
+  readonly sharpLayerPath?: string;
+
   /**
    * By default all CloudFront cache will be invalidated on deployment.
    * This can be set to true to skip the full cache invalidation, which
    * could be important for some users.
    */
   readonly skipFullInvalidation?: boolean;
+
+  /**
+   * Stream responses from the server function so App Router streaming and
+   * Suspense reach the browser incrementally. Sets the server function URL's
+   * invoke mode to `RESPONSE_STREAM`.
+   *
+   * For open-next v2, the default `buildCommand` is run with `--streaming`.
+   * For open-next v3, set `default.override.wrapper` to `aws-lambda-streaming`
+   * in `open-next.config.ts`.
+   * @default false
+   */
+  readonly streaming?: boolean;
 }
 
 ///// stuff below taken from https://github.com/serverless-stack/sst/blob/8d377e941467ced81d8cc31ee67d5a06550f04d4/packages/resources/src/BaseSite.ts
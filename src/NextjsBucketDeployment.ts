@@ -48,6 +48,8 @@ export interface NextjsBucketDeploymentProps {
   readonly substitutionConfig?: Record<string, string>;
   /**
    * If `true` then files will be zipped before writing to destination bucket.
+   * The zip's key is `destinationKeyPrefix` joined with a hash of resolved
+   * `substitutionConfig` values. Get it with `zipObjectKey`.
    *
    * Useful for Lambda functions.
    * @default false
@@ -97,13 +99,25 @@ export class NextjsBucketDeployment extends Construct {
    * Lambda Function Provider for Custom Resource
    */
   function: Function;
+  /**
+   * Custom Resource deploying files
+   */
+  customResource: CustomResource;
   private props: NextjsBucketDeploymentProps;
 
   constructor(scope: Construct, id: string, props: NextjsBucketDeploymentProps) {
     super(scope, id);
     this.props = props;
     this.function = this.createFunction();
-    this.createCustomResource(this.function.functionArn);
+    this.customResource = this.createCustomResource(this.function.functionArn);
+  }
+
+  /**
+   * Key of zip within `destinationBucket` when `zip` is `true`. Resolved at
+   * deploy time as it depends on substituted values.
+   */
+  get zipObjectKey(): string {
+    return this.customResource.getAttString('ZipObjectKey');
   }
 
   private createFunction() {
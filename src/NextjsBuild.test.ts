@@ -0,0 +1,92 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { App, Stack } from 'aws-cdk-lib';
+import { NextjsBuild, NextjsBuildProps } from './NextjsBuild';
+import { createNextjsBuild, OPEN_NEXT_V3_OUTPUT, useNextjsApps } from './test-utils';
+
+describe('NextjsBuild', () => {
+  const createNextjsApp = useNextjsApps();
+
+  describe('open-next output', () => {
+    test('v2 without open-next.output.json should use fixed directory layout', () => {
+      const nextjsPath = createNextjsApp({ '.open-next/server-function/index.mjs': '' });
+      const nextBuild = createNextjsBuild(new Stack(new App(), 'Stack'), nextjsPath);
+      expect(nextBuild.openNextOutput).toBeUndefined();
+      expect(nextBuild.nextServerFnDir).toBe(join(nextjsPath, '.open-next', 'server-function'));
+      expect(nextBuild.nextStaticDir).toBe(join(nextjsPath, '.open-next', 'assets'));
+      expect(nextBuild.nextWarmerFnDir).toBe(join(nextjsPath, '.open-next', 'warmer-function'));
+    });
+
+    test('v3 should resolve bundles and static files from open-next.output.json', () => {
+      const nextjsPath = createNextjsApp({
+        '.open-next/open-next.output.json': JSON.stringify({
+          ...OPEN_NEXT_V3_OUTPUT,
+          origins: {
+            ...OPEN_NEXT_V3_OUTPUT.origins,
+            default: { type: 'function', handler: 'index.handler', bundle: '.open-next/server-functions/custom' },
+          },
+        }),
+      });
+      const nextBuild = createNextjsBuild(new Stack(new App(), 'Stack'), nextjsPath);
+      expect(nextBuild.openNextOutput?.behaviors).toHaveLength(4);
+      expect(nextBuild.nextServerFnDir).toBe(join(nextjsPath, '.open-next', 'server-functions', 'custom'));
+      expect(nextBuild.nextImageFnDir).toBe(join(nextjsPath, '.open-next', 'image-optimization-function'));
+      expect(nextBuild.nextStaticDir).toBe(join(nextjsPath, '.open-next', 'assets'));
+      expect(nextBuild.nextCacheDir).toBe(join(nextjsPath, '.open-next', 'cache'));
+      // not in output so falls back to v2 layout
+      expect(nextBuild.nextRevalidateFnDir).toBe(join(nextjsPath, '.open-next', 'revalidation-function'));
+    });
+
+    test('invalid open-next.output.json should throw', () => {
+      for (const output of ['{', JSON.stringify({ origins: {} })]) {
+        const nextjsPath = createNextjsApp({ '.open-next/open-next.output.json': output });
+        const nextBuild = createNextjsBuild(new Stack(new App(), 'Stack'), nextjsPath);
+        expect(() => nextBuild.openNextOutput).toThrow(/Invalid .*open-next\.output\.json/);
+      }
+    });
+  });
+
+  describe('build cache', () => {
+    // counts builds in build output which isn't part of build hash
+    const buildCommand = 'mkdir -p .open-next && echo build >> .open-next/builds.log';
+
+    function build(nextjsPath: string, props: Partial<NextjsBuildProps> = {}) {
+      new NextjsBuild(new Stack(new App(), 'Stack'), 'Build', {
+        nextjsPath,
+        buildCommand,
+        buildCache: true,
+        quiet: true,
+        ...props,
+      });
+      return readFileSync(join(nextjsPath, '.open-next', 'builds.log'), 'utf8').split('\n').filter(Boolean).length;
+    }
+
+    test('should skip build when sources, environment and command are unchanged', () => {
+      const nextjsPath = createNextjsApp({ 'app/page.tsx': 'page', 'package-lock.json': '{}' });
+      expect(build(nextjsPath)).toBe(1);
+      expect(build(nextjsPath)).toBe(1);
+      expect(build(nextjsPath, { forceBuild: true })).toBe(2);
+    });
+
+    test('should rebuild when sources, lockfile, environment or command change', () => {
+      const nextjsPath = createNextjsApp({ 'app/page.tsx': 'page', 'package-lock.json': '{}' });
+      expect(build(nextjsPath)).toBe(1);
+      writeFileSync(join(nextjsPath, 'app', 'page.tsx'), 'page2');
+      expect(build(nextjsPath)).toBe(2);
+      writeFileSync(join(nextjsPath, 'package-lock.json'), '{"lockfileVersion":3}');
+      expect(build(nextjsPath)).toBe(3);
+      expect(build(nextjsPath, { environment: { FOO: 'bar' } })).toBe(4);
+      expect(build(nextjsPath, { environment: { FOO: 'bar' } })).toBe(4);
+      expect(build(nextjsPath, { environment: { FOO: 'bar' }, buildCommand: `${buildCommand} # v2` })).toBe(5);
+    });
+
+    test('should ignore build output and node_modules', () => {
+      const nextjsPath = createNextjsApp({ 'app/page.tsx': 'page' });
+      expect(build(nextjsPath)).toBe(1);
+      writeFileSync(join(nextjsPath, '.open-next', 'other.txt'), '');
+      mkdirSync(join(nextjsPath, 'node_modules'));
+      writeFileSync(join(nextjsPath, 'node_modules', 'pkg.js'), '');
+      expect(build(nextjsPath)).toBe(1);
+    });
+  });
+});
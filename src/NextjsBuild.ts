@@ -11,9 +11,20 @@ import {
   NEXTJS_STATIC_DIR,
   NEXTJS_CACHE_DIR,
   NEXTJS_BUILD_DYNAMODB_PROVIDER_FN_DIR,
+  NEXTJS_BUILD_OUTPUT_FILE,
+  NEXTJS_CONFIG_FILE,
+  CACHE_BUCKET_KEY_PREFIX,
+  NEXTJS_BUILD_HASH_FILE,
+  NEXTJS_BUILD_WARMER_FN_DIR,
+  NEXT_DIST_DIR,
+  NEXT_BUILD_ID_FILE,
+  NEXT_IMAGES_MANIFEST_FILE,
+  NEXT_PRERENDER_MANIFEST_FILE,
+  NEXT_REQUIRED_SERVER_FILES_FILE,
 } from './constants';
 import { NextjsBaseProps } from './NextjsBase';
 import { NextjsBucketDeployment } from './NextjsBucketDeployment';
+import { hashDirectory } from './utils/hash-directory';
 import { listDirectory } from './utils/list-directories';
 
 export interface NextjsBuildProps extends NextjsBaseProps {
@@ -21,6 +32,165 @@ export interface NextjsBuildProps extends NextjsBaseProps {
    * @see `NextjsProps.skipBuild`
    */
   readonly skipBuild?: boolean;
+  /**
+   * @see `NextjsProps.buildCache`
+   */
+  readonly buildCache?: boolean;
+  /**
+   * @see `NextjsProps.forceBuild`
+   */
+  readonly forceBuild?: boolean;
+}
+
+/**
+ * Function bundle referenced in `open-next.output.json`.
+ */
+export interface OpenNextFunctionOutput {
+  /**
+   * Handler of the function i.e. `index.handler`.
+   */
+  readonly handler: string;
+  /**
+   * Path to the bundle relative to `nextjsPath` i.e. `.open-next/warmer-function`.
+   */
+  readonly bundle: string;
+}
+
+/**
+ * Files copied to the S3 origin, referenced in `open-next.output.json`.
+ */
+export interface OpenNextS3OriginCopy {
+  /**
+   * Directory relative to `nextjsPath` to copy files from.
+   */
+  readonly from: string;
+  /**
+   * Key prefix files are copied to.
+   */
+  readonly to: string;
+  /**
+   * Whether files can be cached by CloudFront.
+   */
+  readonly cached: boolean;
+  /**
+   * Sub directory containing versioned (immutable) files.
+   */
+  readonly versionedSubDir?: string;
+}
+
+/**
+ * Origin referenced in `open-next.output.json`.
+ */
+export interface OpenNextOrigin {
+  /**
+   * `function`, `s3` or `ecs`.
+   */
+  readonly type: string;
+  /**
+   * Function handler. Only set for `function` origins.
+   */
+  readonly handler?: string;
+  /**
+   * Path to the bundle relative to `nextjsPath`. Only set for `function` and
+   * `ecs` origins.
+   */
+  readonly bundle?: string;
+  /**
+   * Whether the function was built with a streaming wrapper.
+   */
+  readonly streaming?: boolean;
+  /**
+   * Wrapper used by open-next to build the function i.e. `aws-lambda`.
+   */
+  readonly wrapper?: string;
+  /**
+   * Converter used by open-next to build the function i.e. `aws-apigw-v2`.
+   */
+  readonly converter?: string;
+  /**
+   * Origin path. Only set for `s3` origins.
+   */
+  readonly originPath?: string;
+  /**
+   * Files to copy. Only set for `s3` origins.
+   */
+  readonly copy?: OpenNextS3OriginCopy[];
+}
+
+/**
+ * CloudFront behavior referenced in `open-next.output.json`.
+ */
+export interface OpenNextBehavior {
+  /**
+   * CloudFront path pattern i.e. `_next/image*`.
+   */
+  readonly pattern: string;
+  /**
+   * Key of `OpenNextOutput.origins` requests matching `pattern` are routed to.
+   */
+  readonly origin?: string;
+  /**
+   * Key of `OpenNextOutput.edgeFunctions` associated with this behavior.
+   */
+  readonly edgeFunction?: string;
+}
+
+/**
+ * Additional functions referenced in `open-next.output.json`.
+ */
+export interface OpenNextAdditionalProps {
+  readonly disableIncrementalCache?: boolean;
+  readonly disableTagCache?: boolean;
+  /**
+   * Function inserting tags into the DynamoDB table on deployment.
+   */
+  readonly initializationFunction?: OpenNextFunctionOutput;
+  /**
+   * Function keeping the server function warm.
+   */
+  readonly warmer?: OpenNextFunctionOutput;
+  /**
+   * Function processing items from the revalidation queue.
+   */
+  readonly revalidationFunction?: OpenNextFunctionOutput;
+}
+
+/**
+ * Contents of `open-next.output.json` written by open-next v3 and later.
+ * @see {@link https://open-next.js.org/config/reference}
+ */
+export interface OpenNextOutput {
+  readonly origins: Record<string, OpenNextOrigin>;
+  readonly behaviors: OpenNextBehavior[];
+  readonly edgeFunctions?: Record<string, OpenNextFunctionOutput>;
+  readonly additionalProps?: OpenNextAdditionalProps;
+}
+
+/**
+ * Subset of `images` in `next.config.js` read from Next.js build output.
+ * @see {@link https://nextjs.org/docs/app/api-reference/components/image#configuration-options}
+ */
+export interface NextjsImagesConfig {
+  /**
+   * Minimum time to live in seconds of optimized images.
+   */
+  readonly minimumCacheTTL?: number;
+  /**
+   * Image formats served based on `Accept` header i.e. `image/webp`.
+   */
+  readonly formats?: string[];
+  /**
+   * Widths of images matching device widths.
+   */
+  readonly deviceSizes?: number[];
+  /**
+   * Widths of images smaller than the smallest device width.
+   */
+  readonly imageSizes?: number[];
+  /**
+   * Images are served as is without optimization.
+   */
+  readonly unoptimized?: boolean;
 }
 
 /**
@@ -31,7 +201,7 @@ export class NextjsBuild extends Construct {
    * Contains server code and dependencies.
    */
   public get nextServerFnDir(): string {
-    const dir = path.join(this.getNextBuildDir(), NEXTJS_BUILD_SERVER_FN_DIR);
+    const dir = this.getBundleDir(this.openNextOutput?.origins.default?.bundle, NEXTJS_BUILD_SERVER_FN_DIR);
     this.warnIfMissing(dir);
     return dir;
   }
@@ -40,7 +210,7 @@ export class NextjsBuild extends Construct {
    * Should be arm64.
    */
   public get nextImageFnDir(): string {
-    const fnPath = path.join(this.getNextBuildDir(), NEXTJS_BUILD_IMAGE_FN_DIR);
+    const fnPath = this.getBundleDir(this.openNextOutput?.origins.imageOptimizer?.bundle, NEXTJS_BUILD_IMAGE_FN_DIR);
     this.warnIfMissing(fnPath);
     return fnPath;
   }
@@ -48,7 +218,10 @@ export class NextjsBuild extends Construct {
    * Contains function for processing items from revalidation queue.
    */
   public get nextRevalidateFnDir(): string {
-    const fnPath = path.join(this.getNextBuildDir(), NEXTJS_BUILD_REVALIDATE_FN_DIR);
+    const fnPath = this.getBundleDir(
+      this.openNextOutput?.additionalProps?.revalidationFunction?.bundle,
+      NEXTJS_BUILD_REVALIDATE_FN_DIR
+    );
     this.warnIfMissing(fnPath);
     return fnPath;
   }
@@ -56,7 +229,18 @@ export class NextjsBuild extends Construct {
    * Contains function for inserting revalidation items into the table.
    */
   public get nextRevalidateDynamoDBProviderFnDir(): string {
-    const fnPath = path.join(this.getNextBuildDir(), NEXTJS_BUILD_DYNAMODB_PROVIDER_FN_DIR);
+    const fnPath = this.getBundleDir(
+      this.openNextOutput?.additionalProps?.initializationFunction?.bundle,
+      NEXTJS_BUILD_DYNAMODB_PROVIDER_FN_DIR
+    );
+    this.warnIfMissing(fnPath);
+    return fnPath;
+  }
+  /**
+   * Contains function for keeping the server function warm.
+   */
+  public get nextWarmerFnDir(): string {
+    const fnPath = this.getBundleDir(this.openNextOutput?.additionalProps?.warmer?.bundle, NEXTJS_BUILD_WARMER_FN_DIR);
     this.warnIfMissing(fnPath);
     return fnPath;
   }
@@ -64,7 +248,7 @@ export class NextjsBuild extends Construct {
    * Static files containing client-side code.
    */
   public get nextStaticDir(): string {
-    const dir = path.join(this.getNextBuildDir(), NEXTJS_STATIC_DIR);
+    const dir = this.getBundleDir(this.findS3OriginCopy((c) => c.cached)?.from, NEXTJS_STATIC_DIR);
     this.warnIfMissing(dir);
     return dir;
   }
@@ -72,13 +256,104 @@ export class NextjsBuild extends Construct {
    * Cache directory for generated data.
    */
   public get nextCacheDir(): string {
-    const dir = path.join(this.getNextBuildDir(), NEXTJS_CACHE_DIR);
+    const dir = this.getBundleDir(
+      this.findS3OriginCopy((c) => c.to === CACHE_BUCKET_KEY_PREFIX)?.from,
+      NEXTJS_CACHE_DIR
+    );
     this.warnIfMissing(dir);
     return dir;
   }
+  /**
+   * Contents of `open-next.output.json`. Only defined for open-next v3 and
+   * later. When defined, function bundles, origins and behaviors are read
+   * from it instead of open-next v2's fixed directory layout.
+   */
+  public get openNextOutput(): OpenNextOutput | undefined {
+    if (this._openNextOutput === undefined) {
+      const outputPath = path.join(this.getNextBuildDir(), NEXTJS_BUILD_OUTPUT_FILE);
+      this._openNextOutput = fs.existsSync(outputPath) ? this.readOpenNextOutput(outputPath) : null;
+    }
+    return this._openNextOutput ?? undefined;
+  }
+
+  /**
+   * `images` config of Next.js app read from `.next/images-manifest.json` or,
+   * if missing, `.next/required-server-files.json`. Undefined if neither exist.
+   */
+  public get nextImagesConfig(): NextjsImagesConfig | undefined {
+    if (this._nextImagesConfig === undefined) {
+      const nextDistDir = path.resolve(this.props.nextjsPath, NEXT_DIST_DIR);
+      const imagesManifestPath = path.join(nextDistDir, NEXT_IMAGES_MANIFEST_FILE);
+      const requiredServerFilesPath = path.join(nextDistDir, NEXT_REQUIRED_SERVER_FILES_FILE);
+      if (fs.existsSync(imagesManifestPath)) {
+        this._nextImagesConfig = JSON.parse(fs.readFileSync(imagesManifestPath, 'utf8')).images ?? null;
+      } else if (fs.existsSync(requiredServerFilesPath)) {
+        this._nextImagesConfig = JSON.parse(fs.readFileSync(requiredServerFilesPath, 'utf8')).config?.images ?? null;
+      } else {
+        this._nextImagesConfig = null;
+      }
+    }
+    return this._nextImagesConfig ?? undefined;
+  }
+
+  /**
+   * Next.js' prerendered error pages keyed by their path in static assets.
+   * `NextjsStaticAssets` uploads them under `_next/static/{buildId}` so
+   * they're served by `_next/static/*` behavior and change with each build.
+   * Empty if pages aren't prerendered or build id is missing.
+   */
+  public get nextErrorPages(): Record<string, string> {
+    const buildId = this.nextBuildId;
+    if (!buildId) return {};
+    const nextServerDir = path.resolve(this.props.nextjsPath, NEXT_DIST_DIR, 'server');
+    const sources: Record<string, string[]> = {
+      // app router prerenders `not-found` as `_not-found` if pages router's 404 doesn't exist
+      '404.html': [path.join(nextServerDir, 'pages', '404.html'), path.join(nextServerDir, 'app', '_not-found.html')],
+      '500.html': [path.join(nextServerDir, 'pages', '500.html')],
+    };
+    const errorPages: Record<string, string> = {};
+    for (const [name, filePaths] of Object.entries(sources)) {
+      const filePath = filePaths.find((p) => fs.existsSync(p));
+      if (filePath) errorPages[`/_next/static/${buildId}/${name}`] = filePath;
+    }
+    return errorPages;
+  }
+
+  /**
+   * Next.js build id read from `.next/BUILD_ID`. open-next prefixes keys in
+   * revalidation table with it.
+   */
+  public get nextBuildId(): string | undefined {
+    const buildIdPath = path.resolve(this.props.nextjsPath, NEXT_DIST_DIR, NEXT_BUILD_ID_FILE);
+    return fs.existsSync(buildIdPath) ? fs.readFileSync(buildIdPath, 'utf8').trim() : undefined;
+  }
+
+  /**
+   * Whether app uses ISR or cache tags and therefore needs revalidation queue
+   * and table. True if a route in `.next/prerender-manifest.json` has
+   * `revalidate` set, if open-next output DynamoDB provider for tags or if
+   * manifest is missing. `revalidatePath` and `revalidateTag` called at
+   * runtime can't be detected.
+   */
+  public get isRevalidationUsed(): boolean {
+    const prerenderManifestPath = path.resolve(this.props.nextjsPath, NEXT_DIST_DIR, NEXT_PRERENDER_MANIFEST_FILE);
+    if (!fs.existsSync(prerenderManifestPath)) return true;
+    const dynamodbProviderPath = this.getBundleDir(
+      this.openNextOutput?.additionalProps?.initializationFunction?.bundle,
+      NEXTJS_BUILD_DYNAMODB_PROVIDER_FN_DIR
+    );
+    if (fs.existsSync(dynamodbProviderPath)) return true;
+    const { routes = {} } = JSON.parse(fs.readFileSync(prerenderManifestPath, 'utf8'));
+    return Object.values<{ initialRevalidateSeconds?: number | false }>(routes).some(
+      ({ initialRevalidateSeconds }) => typeof initialRevalidateSeconds === 'number'
+    );
+  }
 
   public props: NextjsBuildProps;
 
+  private _openNextOutput?: OpenNextOutput | null;
+  private _nextImagesConfig?: NextjsImagesConfig | null;
+
   constructor(scope: Construct, id: string, props: NextjsBuildProps) {
     super(scope, id);
     this.props = props;
@@ -110,7 +385,20 @@ export class NextjsBuild extends Construct {
 
   private build() {
     const buildPath = this.props.buildPath ?? this.props.nextjsPath;
-    const buildCommand = this.props.buildCommand ?? 'npx open-next@^2 build';
+    const buildCommand = this.props.buildCommand ?? this.getDefaultBuildCommand();
+    const buildHash = this.props.buildCache ? this.getBuildHash(buildCommand) : undefined;
+    if (buildHash) {
+      if (!this.props.forceBuild && this.readBuildHash() === buildHash) {
+        if (!this.props.quiet) {
+          console.debug(`├ Build cache hit (${buildHash.substring(0, 8)}), skipping "${buildCommand}"`);
+        }
+        return;
+      }
+      if (!this.props.quiet) {
+        const reason = this.props.forceBuild ? 'forced' : 'miss';
+        console.debug(`├ Build cache ${reason} (${buildHash.substring(0, 8)})`);
+      }
+    }
     // run build
     if (!this.props.quiet) {
       console.debug(`├ Running "${buildCommand}" in`, buildPath);
@@ -121,6 +409,60 @@ export class NextjsBuild extends Construct {
       stdio: this.props.quiet ? 'ignore' : 'inherit',
       env: this.getBuildEnvVars(),
     });
+    // build may have changed open-next.output.json and images config
+    this._openNextOutput = undefined;
+    this._nextImagesConfig = undefined;
+    if (buildHash) {
+      // open-next empties .open-next on each build so a failed build never
+      // leaves a stale hash behind
+      fs.writeFileSync(path.join(this.getNextBuildDir(), NEXTJS_BUILD_HASH_FILE), buildHash);
+    }
+  }
+
+  /**
+   * Hash of everything that affects build output: Next.js sources, lockfiles,
+   * build time environment variables and the build command.
+   */
+  private getBuildHash(buildCommand: string): string {
+    const hash = hashDirectory({
+      directory: this.props.nextjsPath,
+      exclude: ['node_modules', '.next', NEXTJS_BUILD_DIR, '.git', 'cdk.out'],
+    });
+    const lockfileDirs = new Set(
+      [this.props.nextjsPath, this.props.buildPath, this.props.projectRoot]
+        .filter((d): d is string => !!d)
+        .map((d) => path.resolve(d))
+    );
+    for (const dir of lockfileDirs) {
+      for (const lockfile of ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb']) {
+        const lockfilePath = path.join(dir, lockfile);
+        if (fs.existsSync(lockfilePath)) {
+          hash.update(fs.readFileSync(lockfilePath));
+        }
+      }
+    }
+    // unresolved tokens change between synths so hash their placeholders instead
+    const environment = Object.entries(this.props.environment || {})
+      .map(([k, v]) => [k, Token.isUnresolved(v) ? NextjsBucketDeployment.getSubstitutionValue(k) : v])
+      .sort(([a], [b]) => (a < b ? -1 : 1));
+    hash.update(JSON.stringify(environment));
+    hash.update(buildCommand);
+    return hash.digest('hex');
+  }
+
+  private readBuildHash(): string | undefined {
+    const hashPath = path.join(path.resolve(this.props.nextjsPath, NEXTJS_BUILD_DIR), NEXTJS_BUILD_HASH_FILE);
+    return fs.existsSync(hashPath) ? fs.readFileSync(hashPath, 'utf8') : undefined;
+  }
+
+  /**
+   * open-next v3 requires `open-next.config.ts` so use its presence to decide
+   * which major version of open-next to build with.
+   */
+  private getDefaultBuildCommand(): string {
+    const isV3 = fs.existsSync(path.join(this.props.nextjsPath, NEXTJS_CONFIG_FILE));
+    if (isV3) return 'npx --yes open-next@^3 build';
+    return this.props.streaming ? 'npx --yes open-next@^2 build --streaming' : 'npx --yes open-next@^2 build';
   }
 
   /**
@@ -151,12 +493,41 @@ export class NextjsBuild extends Construct {
     return listDirectory(this.nextStaticDir).map((file) => path.join('/', path.relative(this.nextStaticDir, file)));
   }
 
+  private readOpenNextOutput(outputPath: string): OpenNextOutput {
+    let output: Partial<OpenNextOutput>;
+    try {
+      output = JSON.parse(fs.readFileSync(outputPath, 'utf8'));
+    } catch (err) {
+      throw new Error(`Invalid ${outputPath}: ${(err as Error).message}`);
+    }
+    if (typeof output?.origins !== 'object' || !Array.isArray(output.behaviors)) {
+      throw new Error(`Invalid ${outputPath}: "origins" and "behaviors" are required.`);
+    }
+    return output as OpenNextOutput;
+  }
+
   private getNextBuildDir(): string {
     const dir = path.resolve(this.props.nextjsPath, NEXTJS_BUILD_DIR);
     this.warnIfMissing(dir);
     return dir;
   }
 
+  /**
+   * Resolves `bundle` from `open-next.output.json` relative to `nextjsPath`,
+   * or falls back to open-next v2's directory within `.open-next`.
+   */
+  private getBundleDir(bundle: string | undefined, v2Dir: string): string {
+    if (bundle) {
+      return path.resolve(this.props.nextjsPath, bundle);
+    }
+    return path.join(this.getNextBuildDir(), v2Dir);
+  }
+
+  private findS3OriginCopy(predicate: (copy: OpenNextS3OriginCopy) => boolean) {
+    const s3Origin = Object.values(this.openNextOutput?.origins ?? {}).find((o) => o.type === 's3');
+    return s3Origin?.copy?.find(predicate);
+  }
+
   private warnIfMissing(dir: string) {
     if (!fs.existsSync(dir)) {
       console.warn(`Warning: ${dir} does not exist.`);
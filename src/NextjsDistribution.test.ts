@@ -0,0 +1,496 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { Annotations, Match, Template } from 'aws-cdk-lib/assertions';
+import { OriginRequestPolicy, ResponseHeadersPolicy } from 'aws-cdk-lib/aws-cloudfront';
+import { Code, FunctionUrlAuthType, Function as LambdaFunction, Runtime } from 'aws-cdk-lib/aws-lambda';
+import { Bucket } from 'aws-cdk-lib/aws-s3';
+import { NextjsImagesConfig, OpenNextOutput } from './NextjsBuild';
+import {
+  NextjsDistribution,
+  NextjsDistributionProps,
+  NextjsFunctionUrlSigning,
+  NextjsStaticOriginAccess,
+  NextjsStaticRouting,
+} from './NextjsDistribution';
+import { NextjsMaintenance } from './NextjsMaintenance';
+import { NextjsOriginVerify } from './NextjsOriginVerify';
+import { createNextjsBuild, OPEN_NEXT_V3_OUTPUT, useNextjsApps } from './test-utils';
+
+describe('NextjsDistribution', () => {
+  const createNextjsApp = useNextjsApps();
+
+  function createDistribution(
+    props:
+      | Partial<NextjsDistributionProps>
+      | ((stack: Stack, createFn: (id: string) => LambdaFunction) => Partial<NextjsDistributionProps>) = {},
+    {
+      publicFiles = ['favicon.ico', 'images/a.png', '_next/static/chunks/main.js'],
+      imagesConfig,
+      files = {},
+    }: { publicFiles?: string[]; imagesConfig?: NextjsImagesConfig; files?: Record<string, string> } = {}
+  ) {
+    const nextjsPath = createNextjsApp({
+      ...Object.fromEntries(publicFiles.map((file) => [`.open-next/assets/${file}`, ''])),
+      ...(imagesConfig ? { '.next/images-manifest.json': JSON.stringify({ images: imagesConfig }) } : {}),
+      ...files,
+    });
+    const stack = new Stack(new App(), 'Stack', { env: { region: 'us-east-1' } });
+    const createFn = (id: string) =>
+      new LambdaFunction(stack, id, {
+        code: Code.fromInline('exports.handler = () => {}'),
+        handler: 'index.handler',
+        runtime: Runtime.NODEJS_18_X,
+      });
+    const nextBuild = createNextjsBuild(stack, nextjsPath);
+    const distribution = new NextjsDistribution(stack, 'Distribution', {
+      nextjsPath,
+      nextBuild,
+      staticAssetsBucket: new Bucket(stack, 'Bucket'),
+      serverFunction: createFn('ServerFn'),
+      ...(typeof props === 'function' ? props(stack, createFn) : props),
+    });
+    return { distribution, stack, template: Template.fromStack(stack) };
+  }
+
+  /**
+   * Evaluates CloudFront Function's code with stubbed `cloudfront` module.
+   * Tokens in code, i.e. KeyValueStore ID, are replaced with `TOKEN`.
+   */
+  async function runCloudFrontFn(
+    template: Template,
+    request: Record<string, any>,
+    { viewerIp = '192.0.2.1', kvsGet = async (): Promise<string> => Promise.reject(new Error('Key not found')) } = {}
+  ) {
+    const [cfFunction] = Object.values(template.findResources('AWS::CloudFront::Function'));
+    const fnCode = cfFunction.Properties.FunctionCode;
+    const code: string =
+      typeof fnCode === 'string'
+        ? fnCode
+        : fnCode['Fn::Join'][1].map((part: unknown) => (typeof part === 'string' ? part : 'TOKEN')).join('');
+    const cf = { selectRequestOriginById: jest.fn(), kvs: () => ({ get: kvsGet }) };
+    const handler = new Function('cf', `${code.replace("import cf from 'cloudfront';", '')}; return handler;`)(cf);
+    const result = await handler({
+      request: { headers: {}, cookies: {}, querystring: {}, ...request },
+      viewer: { ip: viewerIp },
+    });
+    return { result, selectedOriginId: cf.selectRequestOriginById.mock.calls[0]?.[0] };
+  }
+
+  function getDistributionConfig(template: Template) {
+    const [distribution] = Object.values(template.findResources('AWS::CloudFront::Distribution'));
+    return distribution.Properties.DistributionConfig;
+  }
+
+  describe('static routing function', () => {
+    test('should route public files to static assets bucket without server cache key', async () => {
+      const { template } = createDistribution({ staticRouting: NextjsStaticRouting.FUNCTION });
+      const { result, selectedOriginId } = await runCloudFrontFn(template, {
+        uri: '/images/a.png',
+        headers: { host: { value: 'example.com' }, rsc: { value: '1' } },
+        cookies: { session: { value: 'a' } },
+        querystring: { v: { value: '1' } },
+      });
+      expect(selectedOriginId).toMatch(/StaticAssets$/);
+      expect(result.headers.rsc).toBeUndefined();
+      expect(result.cookies).toEqual({});
+      expect(result.querystring).toEqual({});
+      expect((await runCloudFrontFn(template, { uri: '/favicon.ico' })).selectedOriginId).toBeDefined();
+    });
+
+    test('should not route _next requests or pages to static assets bucket', async () => {
+      const { template } = createDistribution({ staticRouting: NextjsStaticRouting.FUNCTION });
+      for (const uri of ['/_next/data/build-id/index.json', '/_next/image', '/_next/static/chunks/main.js', '/about']) {
+        const { result, selectedOriginId } = await runCloudFrontFn(template, {
+          uri,
+          cookies: { session: { value: 'a' } },
+        });
+        expect(selectedOriginId).toBeUndefined();
+        expect(result.cookies).toEqual({ session: { value: 'a' } });
+      }
+    });
+
+    test('should not allow server origin request policy forwarding host header', () => {
+      expect(() =>
+        createDistribution({
+          staticRouting: NextjsStaticRouting.FUNCTION,
+          originRequestPolicies: { serverOriginRequestPolicy: OriginRequestPolicy.ALL_VIEWER },
+        })
+      ).toThrow(/must not forward Host header/);
+    });
+  });
+
+  describe('static origin access', () => {
+    const cloudFrontReadStatement = Match.objectLike({
+      Action: 's3:GetObject',
+      Principal: { Service: 'cloudfront.amazonaws.com' },
+    });
+
+    function getStaticOrigin(template: Template) {
+      const [distribution] = Object.values(template.findResources('AWS::CloudFront::Distribution'));
+      return distribution.Properties.DistributionConfig.Origins.find((o: any) => o.S3OriginConfig);
+    }
+
+    test('should default to origin access identity so existing stacks are unchanged', () => {
+      const { template } = createDistribution();
+      template.resourceCountIs('AWS::CloudFront::OriginAccessControl', 0);
+      template.resourceCountIs('AWS::CloudFront::CloudFrontOriginAccessIdentity', 1);
+      expect(getStaticOrigin(template).OriginAccessControlId).toBeUndefined();
+    });
+
+    test('migration mode should allow origin access control while origin still uses identity', () => {
+      const { template } = createDistribution({
+        staticOriginAccess: NextjsStaticOriginAccess.ORIGIN_ACCESS_IDENTITY_AND_CONTROL,
+      });
+      template.resourceCountIs('AWS::CloudFront::OriginAccessControl', 1);
+      template.hasResourceProperties('AWS::S3::BucketPolicy', {
+        PolicyDocument: { Statement: Match.arrayWith([cloudFrontReadStatement]) },
+      });
+      expect(JSON.stringify(getStaticOrigin(template).S3OriginConfig.OriginAccessIdentity)).toContain(
+        'origin-access-identity/cloudfront/'
+      );
+      expect(getStaticOrigin(template).OriginAccessControlId).toBeUndefined();
+    });
+
+    test('origin access control should sign origin without identity', () => {
+      const { template } = createDistribution({ staticOriginAccess: NextjsStaticOriginAccess.ORIGIN_ACCESS_CONTROL });
+      template.resourceCountIs('AWS::CloudFront::CloudFrontOriginAccessIdentity', 0);
+      template.hasResourceProperties('AWS::S3::BucketPolicy', {
+        PolicyDocument: { Statement: Match.arrayWith([cloudFrontReadStatement]) },
+      });
+      expect(getStaticOrigin(template)).toMatchObject({
+        S3OriginConfig: { OriginAccessIdentity: '' },
+        OriginAccessControlId: { 'Fn::GetAtt': [expect.stringMatching(/^DistributionOriginAccessControl/), 'Id'] },
+      });
+    });
+  });
+
+  describe('function URL signing', () => {
+    function getServerBehavior(template: Template) {
+      const [distribution] = Object.values(template.findResources('AWS::CloudFront::Distribution'));
+      return distribution.Properties.DistributionConfig.DefaultCacheBehavior;
+    }
+
+    test('should default to edge lambda so request bodies are signed', () => {
+      const { template } = createDistribution({ functionUrlAuthType: FunctionUrlAuthType.AWS_IAM });
+      template.resourceCountIs('AWS::CloudFront::OriginAccessControl', 0);
+      expect(getServerBehavior(template).LambdaFunctionAssociations).toEqual([
+        expect.objectContaining({ EventType: 'origin-request', IncludeBody: true }),
+      ]);
+    });
+
+    test('origin access control should be opt-in', () => {
+      const { template } = createDistribution({
+        functionUrlAuthType: FunctionUrlAuthType.AWS_IAM,
+        functionUrlSigning: NextjsFunctionUrlSigning.ORIGIN_ACCESS_CONTROL,
+      });
+      template.hasResourceProperties('AWS::CloudFront::OriginAccessControl', {
+        OriginAccessControlConfig: Match.objectLike({ OriginAccessControlOriginType: 'lambda' }),
+      });
+      template.hasResourceProperties('AWS::Lambda::Permission', {
+        Action: 'lambda:InvokeFunctionUrl',
+        Principal: 'cloudfront.amazonaws.com',
+      });
+      expect(getServerBehavior(template).LambdaFunctionAssociations).toBeUndefined();
+    });
+
+    test('streaming should require origin access control with AWS_IAM', () => {
+      expect(() => createDistribution({ functionUrlAuthType: FunctionUrlAuthType.AWS_IAM, streaming: true })).toThrow(
+        /Response streaming is not supported/
+      );
+      expect(() =>
+        createDistribution({
+          functionUrlAuthType: FunctionUrlAuthType.AWS_IAM,
+          functionUrlSigning: NextjsFunctionUrlSigning.ORIGIN_ACCESS_CONTROL,
+          streaming: true,
+        })
+      ).not.toThrow();
+    });
+  });
+
+  describe('origin verify', () => {
+    function getFnUrlOrigins(template: Template) {
+      const [distribution] = Object.values(template.findResources('AWS::CloudFront::Distribution'));
+      return distribution.Properties.DistributionConfig.Origins.filter((o: any) => o.CustomOriginConfig);
+    }
+
+    test('should send header to server, image and revalidation function URLs', () => {
+      const { template } = createDistribution((stack, createFn) => ({
+        imageOptFunction: createFn('ImageFn'),
+        revalidationFunction: createFn('RevalidationFn'),
+        originVerifyHeaderValue: new NextjsOriginVerify(stack, 'OriginVerify', { nextjsPath: '' }).headerValue,
+      }));
+      const origins = getFnUrlOrigins(template);
+      expect(origins).toHaveLength(3);
+      for (const origin of origins) {
+        expect(origin.OriginCustomHeaders).toEqual([
+          {
+            HeaderName: 'x-origin-verify',
+            HeaderValue: { 'Fn::GetAtt': [expect.stringMatching(/^OriginVerifyCustomResource/), 'Value'] },
+          },
+        ]);
+      }
+    });
+
+    test('header value should come from custom resource instead of secret reference', () => {
+      const { template } = createDistribution((stack) => ({
+        originVerifyHeaderValue: new NextjsOriginVerify(stack, 'OriginVerify', {
+          nextjsPath: '',
+          rotationId: '2024-01-01',
+        }).headerValue,
+      }));
+      template.hasResourceProperties('Custom::NextjsOriginVerify', {
+        secretArn: { Ref: Match.stringLikeRegexp('^OriginVerifySecret') },
+        rotationId: '2024-01-01',
+      });
+      // CloudFormation owns header value so rotation doesn't drift distribution
+      expect(JSON.stringify(getFnUrlOrigins(template))).not.toContain('resolve:secretsmanager');
+      template.resourceCountIs('AWS::SecretsManager::RotationSchedule', 0);
+    });
+  });
+
+  describe('error pages', () => {
+    test('should only use default error pages that exist in public', () => {
+      const { template } = createDistribution({ errorPages: {} }, { publicFiles: ['404.html'] });
+      expect(getDistributionConfig(template).CustomErrorResponses).toEqual([
+        { ErrorCode: 404, ResponseCode: 404, ResponsePagePath: '/404.html', ErrorCachingMinTTL: 10 },
+      ]);
+      const { template: templateWithoutPages } = createDistribution({ errorPages: {} });
+      expect(getDistributionConfig(templateWithoutPages).CustomErrorResponses).toBeUndefined();
+    });
+
+    test('should default to prerendered Next.js error pages', () => {
+      const { template } = createDistribution(
+        { errorPages: {}, staticRouting: NextjsStaticRouting.FUNCTION },
+        {
+          files: {
+            '.next/BUILD_ID': 'build-id',
+            '.next/server/app/_not-found.html': 'not found',
+            '.next/server/pages/500.html': 'error',
+          },
+        }
+      );
+      const config = getDistributionConfig(template);
+      expect(config.CustomErrorResponses).toEqual([
+        expect.objectContaining({ ErrorCode: 404, ResponsePagePath: '/_next/static/build-id/404.html' }),
+        expect.objectContaining({ ErrorCode: 500, ResponsePagePath: '/_next/static/build-id/500.html' }),
+        expect.objectContaining({ ErrorCode: 502, ResponsePagePath: '/_next/static/build-id/500.html' }),
+        expect.objectContaining({ ErrorCode: 503, ResponsePagePath: '/_next/static/build-id/500.html' }),
+        expect.objectContaining({ ErrorCode: 504, ResponsePagePath: '/_next/static/build-id/500.html' }),
+      ]);
+      // served by `_next/static/*` behavior
+      expect(config.CacheBehaviors.map((b: any) => b.PathPattern)).not.toContain('_next/static/build-id/404.html');
+    });
+
+    test('should serve configured pages for server errors', () => {
+      const { template } = createDistribution(
+        { errorPages: { serverErrorPagePath: 'error.html' } },
+        { publicFiles: ['error.html'], files: { '.next/BUILD_ID': 'build-id', '.next/server/pages/500.html': '' } }
+      );
+      expect(getDistributionConfig(template).CustomErrorResponses).toEqual([
+        expect.objectContaining({ ErrorCode: 500, ResponsePagePath: '/error.html' }),
+        expect.objectContaining({ ErrorCode: 502, ResponsePagePath: '/error.html' }),
+        expect.objectContaining({ ErrorCode: 503, ResponsePagePath: '/error.html' }),
+        expect.objectContaining({ ErrorCode: 504, ResponsePagePath: '/error.html' }),
+      ]);
+    });
+
+    test('should throw if configured page is missing', () => {
+      expect(() => createDistribution({ errorPages: { notFoundPagePath: '/missing.html' } })).toThrow(
+        /Error page "\/missing.html" not found/
+      );
+    });
+  });
+
+  describe('maintenance', () => {
+    function createMaintenanceDistribution(pagePath?: string) {
+      return createDistribution(
+        (stack) => ({
+          maintenance: new NextjsMaintenance(stack, 'Maintenance', {
+            nextjsPath: '',
+            pagePath,
+            allowedIps: ['198.51.100.1'],
+            bypassCookieValue: 'bypass',
+          }),
+        }),
+        { publicFiles: ['maintenance.html'] }
+      );
+    }
+    const kvsGet = async () => 'on';
+
+    test('should associate KeyValueStore with CloudFront Function', () => {
+      const { template } = createMaintenanceDistribution();
+      template.hasResourceProperties('AWS::CloudFront::Function', {
+        FunctionConfig: Match.objectLike({
+          Runtime: 'cloudfront-js-2.0',
+          KeyValueStoreAssociations: [{ KeyValueStoreARN: { 'Fn::GetAtt': [Match.anyValue(), 'Arn'] } }],
+        }),
+      });
+    });
+
+    test('should serve built-in page while flag is on', async () => {
+      const { template } = createMaintenanceDistribution();
+      const { result } = await runCloudFrontFn(template, { uri: '/' }, { kvsGet });
+      expect(result.statusCode).toBe(503);
+      expect((await runCloudFrontFn(template, { uri: '/' })).result.uri).toBe('/');
+      expect((await runCloudFrontFn(template, { uri: '/' }, { kvsGet: async () => 'off' })).result.uri).toBe('/');
+    });
+
+    test('toggle commands should put flag value so both are idempotent', () => {
+      const maintenance = new NextjsMaintenance(new Stack(new App(), 'Stack'), 'Maintenance', { nextjsPath: '' });
+      expect(maintenance.getToggleCommand(true)).toMatch(/put-key .* --key maintenance --value on /);
+      expect(maintenance.getToggleCommand(false)).toMatch(/put-key .* --key maintenance --value off /);
+    });
+
+    test('should let allowed IPs and bypass cookie through', async () => {
+      const { template } = createMaintenanceDistribution();
+      const allowed = await runCloudFrontFn(template, { uri: '/' }, { kvsGet, viewerIp: '198.51.100.1' });
+      expect(allowed.result.uri).toBe('/');
+      const bypassed = await runCloudFrontFn(
+        template,
+        { uri: '/', cookies: { 'nextjs-maintenance-bypass': { value: 'bypass' } } },
+        { kvsGet }
+      );
+      expect(bypassed.result.uri).toBe('/');
+    });
+
+    test('should rewrite to maintenance page in static assets bucket', async () => {
+      const { template } = createMaintenanceDistribution('/maintenance.html');
+      const { result, selectedOriginId } = await runCloudFrontFn(template, { uri: '/about' }, { kvsGet });
+      expect(result.uri).toBe('/maintenance.html');
+      expect(selectedOriginId).toMatch(/StaticAssets$/);
+    });
+  });
+
+  describe('image cache policy', () => {
+    test('should derive cache key and TTLs from images config without cookies', () => {
+      const { template } = createDistribution((_stack, createFn) => ({ imageOptFunction: createFn('ImageFn') }), {
+        imagesConfig: { minimumCacheTTL: 172800, formats: ['image/webp'] },
+      });
+      template.hasResourceProperties('AWS::CloudFront::CachePolicy', {
+        CachePolicyConfig: Match.objectLike({
+          Comment: 'Nextjs Image Default Cache Policy',
+          MinTTL: 172800,
+          DefaultTTL: 172800,
+          ParametersInCacheKeyAndForwardedToOrigin: Match.objectLike({
+            CookiesConfig: { CookieBehavior: 'none' },
+            HeadersConfig: { HeaderBehavior: 'whitelist', Headers: ['accept'] },
+            QueryStringsConfig: { QueryStringBehavior: 'whitelist', QueryStrings: ['url', 'w', 'q'] },
+          }),
+        }),
+      });
+    });
+
+    test('should not vary by accept header without formats', () => {
+      const { template } = createDistribution((_stack, createFn) => ({ imageOptFunction: createFn('ImageFn') }), {
+        imagesConfig: {},
+      });
+      template.hasResourceProperties('AWS::CloudFront::CachePolicy', {
+        CachePolicyConfig: Match.objectLike({
+          Comment: 'Nextjs Image Default Cache Policy',
+          ParametersInCacheKeyAndForwardedToOrigin: Match.objectLike({ HeadersConfig: { HeaderBehavior: 'none' } }),
+        }),
+      });
+    });
+  });
+
+  describe('security headers', () => {
+    test('should add security headers to server, image and static behaviors', () => {
+      const { template } = createDistribution((_stack, createFn) => ({
+        imageOptFunction: createFn('ImageFn'),
+        securityHeaders: { contentSecurityPolicy: "default-src 'self'" },
+      }));
+      template.hasResourceProperties('AWS::CloudFront::ResponseHeadersPolicy', {
+        ResponseHeadersPolicyConfig: Match.objectLike({
+          CustomHeadersConfig: { Items: [Match.objectLike({ Header: 'cache-control' })] },
+          SecurityHeadersConfig: Match.objectLike({
+            StrictTransportSecurity: Match.objectLike({ AccessControlMaxAgeSec: 31536000, IncludeSubdomains: true }),
+            ContentSecurityPolicy: { ContentSecurityPolicy: "default-src 'self'", Override: false },
+          }),
+        }),
+      });
+      const config = getDistributionConfig(template);
+      for (const behavior of [config.DefaultCacheBehavior, ...config.CacheBehaviors]) {
+        expect(behavior.ResponseHeadersPolicyId).toEqual({ Ref: expect.any(String) });
+      }
+    });
+
+    test('should use custom policy as is and warn that it lacks security headers', () => {
+      const { stack, template } = createDistribution((scope) => ({
+        securityHeaders: {},
+        cachePolicies: {
+          staticResponseHeaderPolicy: new ResponseHeadersPolicy(scope, 'CustomPolicy', {
+            customHeadersBehavior: { customHeaders: [{ header: 'x-custom', value: '1', override: true }] },
+          }),
+        },
+      }));
+      template.hasResourceProperties('AWS::CloudFront::ResponseHeadersPolicy', {
+        ResponseHeadersPolicyConfig: Match.objectLike({
+          CustomHeadersConfig: { Items: [Match.objectLike({ Header: 'x-custom' })] },
+          SecurityHeadersConfig: Match.absent(),
+        }),
+      });
+      Annotations.fromStack(stack).hasWarning(
+        '/Stack/Distribution',
+        Match.stringLikeRegexp('"securityHeaders" are not added to staticResponseHeaderPolicy')
+      );
+    });
+  });
+
+  describe('open-next v3 output', () => {
+    function createV3Distribution(output: Partial<OpenNextOutput> = {}) {
+      return createDistribution((_stack, createFn) => ({ imageOptFunction: createFn('ImageFn') }), {
+        files: { '.open-next/open-next.output.json': JSON.stringify({ ...OPEN_NEXT_V3_OUTPUT, ...output }) },
+      });
+    }
+
+    function getBehaviorOrigins(template: Template) {
+      const config = getDistributionConfig(template);
+      const originIds = new Map<string, string>();
+      for (const origin of config.Origins) {
+        originIds.set(origin.Id, origin.S3OriginConfig ? 's3' : origin.Id);
+      }
+      return config.CacheBehaviors.map((b: any) => [b.PathPattern, originIds.get(b.TargetOriginId)]);
+    }
+
+    test('should add behaviors in open-next order after server routes', () => {
+      const { template } = createV3Distribution();
+      const behaviors = getBehaviorOrigins(template);
+      expect(behaviors.map(([pattern]: string[]) => pattern)).toEqual([
+        'api/*',
+        '_next/data/*',
+        '_next/image*',
+        '_next/*',
+        'favicon.ico',
+        '/',
+      ]);
+      expect(behaviors.filter(([, origin]: string[]) => origin === 's3').map(([pattern]: string[]) => pattern)).toEqual(
+        ['_next/*', 'favicon.ico']
+      );
+    });
+
+    test('should keep listed server behaviors and extra s3 behaviors', () => {
+      const { template } = createV3Distribution({
+        behaviors: [
+          { pattern: 'api/*', origin: 'default' },
+          ...OPEN_NEXT_V3_OUTPUT.behaviors,
+          { pattern: 'assets/*', origin: 'assets' },
+        ],
+        origins: { ...OPEN_NEXT_V3_OUTPUT.origins, assets: { type: 's3', copy: [] } },
+      });
+      const patterns = getBehaviorOrigins(template).map(([pattern]: string[]) => pattern);
+      expect(patterns.filter((p: string) => p === 'api/*')).toHaveLength(1);
+      expect(patterns).toContain('assets/*');
+    });
+
+    test('should reject unsupported origins and edge functions', () => {
+      expect(() =>
+        createV3Distribution({
+          behaviors: [{ pattern: 'api/*', origin: 'api' }],
+          origins: { ...OPEN_NEXT_V3_OUTPUT.origins, api: { type: 'function', bundle: '.open-next/api' } },
+        })
+      ).toThrow(/Origin "api" in open-next.output.json is not supported/);
+      expect(() =>
+        createV3Distribution({ behaviors: [{ pattern: 'api/*', origin: 'default', edgeFunction: 'middleware' }] })
+      ).toThrow(/Edge function "middleware"/);
+    });
+  });
+});
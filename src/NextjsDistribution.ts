@@ -1,6 +1,6 @@
 import * as fs from 'node:fs';
 import * as path from 'path';
-import { Duration, Fn, RemovalPolicy } from 'aws-cdk-lib';
+import { Annotations, Duration, Fn, Names, RemovalPolicy, Stack } from 'aws-cdk-lib';
 import * as acm from 'aws-cdk-lib/aws-certificatemanager';
 import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
 import { Distribution, ResponseHeadersPolicy } from 'aws-cdk-lib/aws-cloudfront';
@@ -13,12 +13,128 @@ import * as route53Patterns from 'aws-cdk-lib/aws-route53-patterns';
 import * as route53Targets from 'aws-cdk-lib/aws-route53-targets';
 import * as s3 from 'aws-cdk-lib/aws-s3';
 import { Construct } from 'constructs';
-import { DEFAULT_STATIC_MAX_AGE, NEXTJS_BUILD_DIR, NEXTJS_STATIC_DIR } from './constants';
+import {
+  DEFAULT_REVALIDATION_PATH,
+  DEFAULT_STATIC_MAX_AGE,
+  MAINTENANCE_BYPASS_COOKIE,
+  MAINTENANCE_KEY,
+  ORIGIN_VERIFY_HEADER,
+} from './constants';
 import { BaseSiteDomainProps, NextjsBaseProps } from './NextjsBase';
-import { NextjsBuild } from './NextjsBuild';
+import { NextjsBuild, OpenNextBehavior, OpenNextOutput } from './NextjsBuild';
+import type { NextjsMaintenance } from './NextjsMaintenance';
 
 export interface NextjsDomainProps extends BaseSiteDomainProps {}
 
+/**
+ * How requests for files in `public` are routed to static assets bucket.
+ */
+export enum NextjsStaticRouting {
+  /**
+   * One cache behavior per top level file or directory. Limited by
+   * CloudFront's 25 cache behaviors per distribution.
+   */
+  BEHAVIORS = 'behaviors',
+  /**
+   * CloudFront Function on server behaviors routes requests matching top
+   * level files or directories to static assets bucket. Not limited by number
+   * of cache behaviors, but static files get server behavior's cache and
+   * origin request policies. Function strips query strings, cookies and
+   * server's cache key headers from those requests so each file is cached
+   * once. Cache duration is then the server cache policy's TTLs.
+   */
+  FUNCTION = 'function',
+}
+
+/**
+ * How CloudFront authenticates to static assets bucket.
+ */
+export enum NextjsStaticOriginAccess {
+  /**
+   * Origin Access Control. Supports SSE-KMS buckets. Existing stacks must
+   * deploy `ORIGIN_ACCESS_IDENTITY_AND_CONTROL` first.
+   */
+  ORIGIN_ACCESS_CONTROL = 'oac',
+  /**
+   * Legacy Origin Access Identity.
+   */
+  ORIGIN_ACCESS_IDENTITY = 'oai',
+  /**
+   * Origin still uses Origin Access Identity but bucket already allows Origin
+   * Access Control. Deploy this before switching an existing stack to
+   * `ORIGIN_ACCESS_CONTROL` so no edge location is denied during the swap.
+   */
+  ORIGIN_ACCESS_IDENTITY_AND_CONTROL = 'oai-and-oac',
+}
+
+/**
+ * How CloudFront signs requests to function URLs when `functionUrlAuthType`
+ * is `AWS_IAM`.
+ */
+export enum NextjsFunctionUrlSigning {
+  /**
+   * Origin Access Control. Supports response streaming, but requests with a
+   * body (i.e. browser `POST`s of forms and server actions) must include the
+   * `x-amz-content-sha256` header or they're rejected.
+   */
+  ORIGIN_ACCESS_CONTROL = 'oac',
+  /**
+   * Lambda@Edge function signing every origin request, including body. Adds
+   * latency and doesn't support response streaming.
+   */
+  EDGE_LAMBDA = 'edge-lambda',
+}
+
+export interface NextjsErrorPagesProps {
+  /**
+   * Path of page in `public` served for 404 responses.
+   * @default "/404.html" in `public` if it exists, otherwise Next.js'
+   * prerendered 404 page (`pages/404` or app router's `not-found`)
+   */
+  readonly notFoundPagePath?: string;
+  /**
+   * Path of page in `public` served when server origin fails (500, 502, 503
+   * and 504 responses).
+   * @default "/500.html" in `public` if it exists, otherwise Next.js'
+   * prerendered 500 page (`pages/500`)
+   */
+  readonly serverErrorPagePath?: string;
+  /**
+   * How long CloudFront caches error responses.
+   * @default Duration.seconds(10)
+   */
+  readonly ttl?: Duration;
+}
+
+export interface NextjsSecurityHeadersProps {
+  /**
+   * How long browsers only connect over HTTPS (`strict-transport-security`).
+   * Includes subdomains.
+   * @default Duration.days(365)
+   */
+  readonly strictTransportSecurityMaxAge?: Duration;
+  /**
+   * Value of `content-security-policy` header. Not sent if omitted.
+   */
+  readonly contentSecurityPolicy?: string;
+  /**
+   * Value of `x-frame-options` header.
+   * @default HeadersFrameOption.SAMEORIGIN
+   */
+  readonly frameOption?: cloudfront.HeadersFrameOption;
+  /**
+   * Value of `referrer-policy` header.
+   * @default HeadersReferrerPolicy.STRICT_ORIGIN_WHEN_CROSS_ORIGIN
+   */
+  readonly referrerPolicy?: cloudfront.HeadersReferrerPolicy;
+  /**
+   * Replace headers sent by origin, i.e. set by `headers` in
+   * `next.config.js`. Origin's headers are kept if false.
+   * @default false
+   */
+  readonly override?: boolean;
+}
+
 export type NextjsDistributionCdkOverrideProps = cloudfront.DistributionProps;
 
 export interface NextjsDistributionCdkProps {
@@ -30,7 +146,21 @@ export interface NextjsDistributionCdkProps {
 }
 
 export interface NextjsCachePolicyProps {
+  /**
+   * Response headers policy of static behaviors. Used as is, so include
+   * security headers in it when using `securityHeaders`.
+   */
   readonly staticResponseHeaderPolicy?: ResponseHeadersPolicy;
+  /**
+   * Response headers policy of server behaviors. Used as is, so include
+   * security headers in it when using `securityHeaders`.
+   */
+  readonly serverResponseHeadersPolicy?: cloudfront.IResponseHeadersPolicy;
+  /**
+   * Response headers policy of image optimization behavior. Used as is, so
+   * include security headers in it when using `securityHeaders`.
+   */
+  readonly imageResponseHeadersPolicy?: cloudfront.IResponseHeadersPolicy;
   readonly staticCachePolicy?: cloudfront.ICachePolicy;
   readonly serverCachePolicy?: cloudfront.ICachePolicy;
   readonly imageCachePolicy?: cloudfront.ICachePolicy;
@@ -61,10 +191,22 @@ export interface NextjsDistributionProps extends NextjsBaseProps {
   readonly serverFunction: lambda.IFunction;
 
   /**
-   * Lambda function to optimize images.
-   * Must be provided if you want to serve dynamic requests.
+   * Lambda function to optimize images. If omitted, `_next/image*` behavior
+   * is not created i.e. when `images.unoptimized` is set in `next.config.js`.
+   */
+  readonly imageOptFunction?: lambda.IFunction;
+
+  /**
+   * Lambda function handling on-demand revalidation requests. If omitted,
+   * revalidation behavior is not created.
+   */
+  readonly revalidationFunction?: lambda.IFunction;
+
+  /**
+   * Path pattern routed to `revalidationFunction`.
+   * @default "_revalidate"
    */
-  readonly imageOptFunction: lambda.IFunction;
+  readonly revalidationPath?: string;
 
   /**
    * Overrides for created CDK resources.
@@ -127,6 +269,22 @@ export interface NextjsDistributionProps extends NextjsBaseProps {
    */
   readonly functionUrlAuthType?: lambda.FunctionUrlAuthType;
 
+  /**
+   * How CloudFront signs requests to function URLs. Only used if
+   * `functionUrlAuthType` is `AWS_IAM`. Opt into `ORIGIN_ACCESS_CONTROL` only
+   * if clients send `x-amz-content-sha256` with request bodies.
+   * @default NextjsFunctionUrlSigning.EDGE_LAMBDA
+   */
+  readonly functionUrlSigning?: NextjsFunctionUrlSigning;
+
+  /**
+   * Value sent to server, image and revalidation functions in
+   * `x-origin-verify` header. Functions must be wrapped to reject requests
+   * without it.
+   * @see `NextjsOriginVerify.headerValue`
+   */
+  readonly originVerifyHeaderValue?: string;
+
   /**
    * Optional value to prefix the Next.js site under a /prefix path on CloudFront.
    * Usually used when you deploy multiple Next.js sites on same domain using /sub-path
@@ -143,6 +301,48 @@ export interface NextjsDistributionProps extends NextjsBaseProps {
    * be used to add Next.js behaviors and origins onto. Useful with `basePath`.
    */
   readonly distribution?: Distribution;
+
+  /**
+   * How requests for files in `public` are routed to static assets bucket.
+   * Use `FUNCTION` if app has too many top level files or directories in
+   * `public` for CloudFront's cache behavior limit.
+   * @default NextjsStaticRouting.BEHAVIORS
+   */
+  readonly staticRouting?: NextjsStaticRouting;
+
+  /**
+   * How CloudFront authenticates to static assets bucket. To migrate an
+   * existing stack without downtime, deploy `ORIGIN_ACCESS_IDENTITY_AND_CONTROL`
+   * before `ORIGIN_ACCESS_CONTROL`. Switching directly can deny requests
+   * with 403 until the distribution finishes deploying.
+   * @default NextjsStaticOriginAccess.ORIGIN_ACCESS_IDENTITY
+   */
+  readonly staticOriginAccess?: NextjsStaticOriginAccess;
+
+  /**
+   * Serve static error pages from static assets bucket when server origin
+   * fails instead of CloudFront's generic error page. Only applied to
+   * distributions created by this construct. Disabled if omitted.
+   *
+   * CloudFront applies error pages to every behavior, so 404 and 5xx
+   * responses of API routes and `_next/data` requests are replaced with HTML
+   * pages too. Don't enable if clients rely on API routes' error bodies.
+   */
+  readonly errorPages?: NextjsErrorPagesProps;
+
+  /**
+   * Serve maintenance page from server behaviors while `maintenance`'s
+   * KeyValueStore flag is on. Disabled if omitted.
+   */
+  readonly maintenance?: NextjsMaintenance;
+
+  /**
+   * Add security headers (HSTS, `x-content-type-options`, `referrer-policy`,
+   * `x-frame-options` and optionally CSP) to server, image and static
+   * responses at the edge. Not added to behaviors whose response headers
+   * policy is set in `cachePolicies`. Disabled if omitted.
+   */
+  readonly securityHeaders?: NextjsSecurityHeadersProps;
 }
 
 /**
@@ -208,7 +408,16 @@ export class NextjsDistribution extends Construct {
     compress: true,
   };
 
-  private s3Origin: origins.S3Origin;
+  private s3Origin: cloudfront.IOrigin;
+
+  private originAccessControl?: cloudfront.CfnOriginAccessControl;
+
+  private fnUrlOriginAccessControl?: cloudfront.CfnOriginAccessControl;
+
+  /**
+   * Functions whose URLs are signed with `fnUrlOriginAccessControl`.
+   */
+  private fnUrlOriginAccessControlFunctions: lambda.IFunction[] = [];
 
   private staticBehaviorOptions: cloudfront.BehaviorOptions;
 
@@ -216,30 +425,68 @@ export class NextjsDistribution extends Construct {
 
   private serverBehaviorOptions: cloudfront.BehaviorOptions;
 
-  private imageBehaviorOptions: cloudfront.BehaviorOptions;
+  private imageBehaviorOptions?: cloudfront.BehaviorOptions;
+
+  private revalidationBehaviorOptions?: cloudfront.BehaviorOptions;
+
+  private errorResponses: cloudfront.ErrorResponse[];
+
+  /**
+   * Shared by server, image and revalidation behaviors. Only created if
+   * `securityHeaders` is set.
+   */
+  private securityResponseHeadersPolicy?: cloudfront.ResponseHeadersPolicy;
 
   constructor(scope: Construct, id: string, props: NextjsDistributionProps) {
     super(scope, id);
 
     this.props = props;
 
+    this.validateStreamingSettings();
+    this.validateStaticRoutingSettings();
+    this.warnIfSecurityHeadersIgnored();
+
     // Create Custom Domain
     this.validateCustomDomainSettings();
     this.hostedZone = this.lookupHostedZone();
     this.certificate = this.createCertificate();
 
     // Create Behaviors
-    this.s3Origin = new origins.S3Origin(this.props.staticAssetsBucket);
+    this.s3Origin = this.createS3Origin();
     this.staticBehaviorOptions = this.createStaticBehaviorOptions();
-    if (this.isFnUrlIamAuth) {
+    if (this.isFnUrlEdgeLambdaSigning) {
       this.edgeLambdas.push(this.createEdgeLambda());
     }
     this.serverBehaviorOptions = this.createServerBehaviorOptions();
-    this.imageBehaviorOptions = this.createImageBehaviorOptions();
+    if (this.props.imageOptFunction) {
+      this.imageBehaviorOptions = this.createImageBehaviorOptions(this.props.imageOptFunction);
+    }
+    if (this.props.revalidationFunction) {
+      this.revalidationBehaviorOptions = this.createRevalidationBehaviorOptions(this.props.revalidationFunction);
+    }
+
+    this.errorResponses = this.getErrorResponses();
 
     // Create CloudFront Distribution
     this.distribution = this.getCloudFrontDistribution();
-    this.addStaticBehaviorsToDistribution();
+    this.addErrorPageBehaviors();
+    if (this.originAccessControl) {
+      this.grantOriginAccessControl();
+    }
+    this.grantFnUrlOriginAccessControl();
+    this.addRevalidationBehavior();
+    const openNextOutput = this.props.nextBuild.openNextOutput;
+    if (openNextOutput) {
+      this.addOpenNextBehaviorsToDistribution(openNextOutput);
+    } else {
+      this.addDynamicBehaviorsToDistribution();
+      if (this.isStaticRoutingFunction) {
+        // hashed build assets keep static cache policy, everything else is routed by CloudFront Function
+        this.distribution.addBehavior(this.getPathPattern('_next/static/*'), this.s3Origin, this.staticBehaviorOptions);
+      } else {
+        this.addStaticBehaviorsToDistribution();
+      }
+    }
     this.addRootPathBehavior();
 
     // Connect Custom Domain to CloudFront Distribution
@@ -290,10 +537,85 @@ export class NextjsDistribution extends Construct {
     return this.distribution.distributionDomainName;
   }
 
+  private get isStaticRoutingFunction() {
+    return this.props.staticRouting === NextjsStaticRouting.FUNCTION;
+  }
+
+  private get staticOriginId() {
+    return `${Names.uniqueId(this)}StaticAssets`;
+  }
+
   private get isFnUrlIamAuth() {
     return this.props.functionUrlAuthType === lambda.FunctionUrlAuthType.AWS_IAM;
   }
 
+  private get isFnUrlEdgeLambdaSigning() {
+    return (
+      this.isFnUrlIamAuth &&
+      (this.props.functionUrlSigning ?? NextjsFunctionUrlSigning.EDGE_LAMBDA) === NextjsFunctionUrlSigning.EDGE_LAMBDA
+    );
+  }
+
+  private get distributionArn() {
+    return Stack.of(this).formatArn({
+      service: 'cloudfront',
+      region: '',
+      resource: 'distribution',
+      resourceName: this.distribution.distributionId,
+    });
+  }
+
+  private get staticOriginAccess() {
+    return this.props.staticOriginAccess ?? NextjsStaticOriginAccess.ORIGIN_ACCESS_IDENTITY;
+  }
+
+  private createS3Origin(): cloudfront.IOrigin {
+    const originProps: cloudfront.OriginProps = {
+      // referenced by CloudFront Function when routing static files
+      originId: this.isStaticRoutingFunction || this.props.maintenance?.pagePath ? this.staticOriginId : undefined,
+    };
+    if (this.staticOriginAccess !== NextjsStaticOriginAccess.ORIGIN_ACCESS_IDENTITY) {
+      this.originAccessControl = new cloudfront.CfnOriginAccessControl(this, 'OriginAccessControl', {
+        originAccessControlConfig: {
+          name: Names.uniqueResourceName(this, { maxLength: 64 }),
+          originAccessControlOriginType: 's3',
+          signingBehavior: 'always',
+          signingProtocol: 'sigv4',
+        },
+      });
+    }
+    if (this.staticOriginAccess === NextjsStaticOriginAccess.ORIGIN_ACCESS_CONTROL) {
+      return new S3OriginAccessControlOrigin(this.props.staticAssetsBucket, this.originAccessControl!, originProps);
+    }
+    return new origins.S3Origin(this.props.staticAssetsBucket, originProps);
+  }
+
+  /**
+   * Allows only this distribution to read static assets bucket through Origin
+   * Access Control, including decrypting SSE-KMS objects.
+   */
+  private grantOriginAccessControl() {
+    const { staticAssetsBucket } = this.props;
+    const principal = new ServicePrincipal('cloudfront.amazonaws.com');
+    const conditions = { StringEquals: { 'AWS:SourceArn': this.distributionArn } };
+    staticAssetsBucket.addToResourcePolicy(
+      new PolicyStatement({
+        actions: ['s3:GetObject'],
+        principals: [principal],
+        resources: [staticAssetsBucket.arnForObjects('*')],
+        conditions,
+      })
+    );
+    staticAssetsBucket.encryptionKey?.addToResourcePolicy(
+      new PolicyStatement({
+        actions: ['kms:Decrypt'],
+        principals: [principal],
+        resources: ['*'],
+        conditions,
+      })
+    );
+  }
+
   private createStaticBehaviorOptions(): cloudfront.BehaviorOptions {
     const staticClientMaxAge = this.props.cachePolicies?.staticClientMaxAgeDefault || DEFAULT_STATIC_MAX_AGE;
     // TODO: remove this response headers policy once S3 files have correct cache control headers with new asset deployment technique
@@ -312,6 +634,7 @@ export class NextjsDistribution extends Construct {
             },
           ],
         },
+        securityHeadersBehavior: this.securityHeadersBehavior,
       });
     const cachePolicy = this.props.cachePolicies?.staticCachePolicy ?? cloudfront.CachePolicy.CACHING_OPTIMIZED;
     return {
@@ -329,7 +652,51 @@ export class NextjsDistribution extends Construct {
   }
 
   /**
-   * Once CloudFront OAC is released, remove this to reduce latency.
+   * Creates origin for function's URL. With `AWS_IAM` auth, requests are
+   * signed by Origin Access Control if opted into, otherwise by edge lambda.
+   */
+  private createFnUrlOrigin(
+    fn: lambda.IFunction,
+    { invokeMode, verifyOrigin }: { invokeMode?: lambda.InvokeMode; verifyOrigin?: boolean } = {}
+  ): cloudfront.IOrigin {
+    const fnUrl = fn.addFunctionUrl({ authType: this.fnUrlAuthType, invokeMode });
+    const { originVerifyHeaderValue } = this.props;
+    const origin = new origins.HttpOrigin(Fn.parseDomainName(fnUrl.url), {
+      customHeaders:
+        verifyOrigin && originVerifyHeaderValue ? { [ORIGIN_VERIFY_HEADER]: originVerifyHeaderValue } : undefined,
+    });
+    if (!this.isFnUrlIamAuth || this.isFnUrlEdgeLambdaSigning) return origin;
+    this.fnUrlOriginAccessControl ??= new cloudfront.CfnOriginAccessControl(this, 'FnUrlOriginAccessControl', {
+      originAccessControlConfig: {
+        // suffixed so name doesn't collide with static assets bucket's Origin Access Control
+        name: `${Names.uniqueResourceName(this, { maxLength: 59 })}FnUrl`,
+        originAccessControlOriginType: 'lambda',
+        signingBehavior: 'always',
+        signingProtocol: 'sigv4',
+      },
+    });
+    this.fnUrlOriginAccessControlFunctions.push(fn);
+    return new OriginAccessControlOrigin(origin, this.fnUrlOriginAccessControl);
+  }
+
+  /**
+   * Allows only this distribution to invoke function URLs signed with Origin
+   * Access Control.
+   */
+  private grantFnUrlOriginAccessControl() {
+    this.fnUrlOriginAccessControlFunctions.forEach((fn, i) => {
+      fn.addPermission(`CloudFrontInvokeFnUrl${i}`, {
+        principal: new ServicePrincipal('cloudfront.amazonaws.com'),
+        action: 'lambda:InvokeFunctionUrl',
+        functionUrlAuthType: lambda.FunctionUrlAuthType.AWS_IAM,
+        sourceArn: this.distributionArn,
+      });
+    });
+  }
+
+  /**
+   * Legacy signing of function URL requests. Prefer Origin Access Control
+   * which doesn't add latency.
    */
   private createEdgeLambda(): cloudfront.EdgeLambda {
     const signFnUrlDir = path.resolve(__dirname, '..', 'assets', 'lambdas', 'sign-fn-url');
@@ -347,7 +714,11 @@ export class NextjsDistribution extends Construct {
     originRequestEdgeFn.addToRolePolicy(
       new PolicyStatement({
         actions: ['lambda:InvokeFunctionUrl'],
-        resources: [this.props.serverFunction.functionArn, this.props.imageOptFunction.functionArn],
+        resources: [
+          this.props.serverFunction.functionArn,
+          this.props.imageOptFunction?.functionArn,
+          this.props.revalidationFunction?.functionArn,
+        ].filter((arn): arn is string => !!arn),
       })
     );
     const originRequestEdgeFnVersion = lambda.Version.fromVersionArn(
@@ -363,8 +734,10 @@ export class NextjsDistribution extends Construct {
   }
 
   private createServerBehaviorOptions(): cloudfront.BehaviorOptions {
-    const fnUrl = this.props.serverFunction.addFunctionUrl({ authType: this.fnUrlAuthType });
-    const origin = new origins.HttpOrigin(Fn.parseDomainName(fnUrl.url));
+    const origin = this.createFnUrlOrigin(this.props.serverFunction, {
+      invokeMode: this.props.streaming ? lambda.InvokeMode.RESPONSE_STREAM : undefined,
+      verifyOrigin: true,
+    });
     const originRequestPolicy =
       this.props.originRequestPolicies?.serverOriginRequestPolicy ??
       cloudfront.OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER;
@@ -379,35 +752,277 @@ export class NextjsDistribution extends Construct {
       cachePolicy,
       edgeLambdas: this.edgeLambdas.length ? this.edgeLambdas : undefined,
       functionAssociations: this.createCloudFrontFnAssociations(),
+      responseHeadersPolicy:
+        this.props.cachePolicies?.serverResponseHeadersPolicy ?? this.getSecurityResponseHeadersPolicy(),
     };
   }
 
+  /**
+   * Security headers from `securityHeaders` with defaults applied.
+   */
+  private get securityHeadersBehavior(): cloudfront.ResponseSecurityHeadersBehavior | undefined {
+    const { securityHeaders } = this.props;
+    if (!securityHeaders) return undefined;
+    const override = securityHeaders.override ?? false;
+    return {
+      strictTransportSecurity: {
+        accessControlMaxAge: securityHeaders.strictTransportSecurityMaxAge ?? Duration.days(365),
+        includeSubdomains: true,
+        override,
+      },
+      contentTypeOptions: { override },
+      referrerPolicy: {
+        referrerPolicy:
+          securityHeaders.referrerPolicy ?? cloudfront.HeadersReferrerPolicy.STRICT_ORIGIN_WHEN_CROSS_ORIGIN,
+        override,
+      },
+      frameOptions: {
+        frameOption: securityHeaders.frameOption ?? cloudfront.HeadersFrameOption.SAMEORIGIN,
+        override,
+      },
+      contentSecurityPolicy: securityHeaders.contentSecurityPolicy
+        ? { contentSecurityPolicy: securityHeaders.contentSecurityPolicy, override }
+        : undefined,
+    };
+  }
+
+  private getSecurityResponseHeadersPolicy(): cloudfront.IResponseHeadersPolicy | undefined {
+    const securityHeadersBehavior = this.securityHeadersBehavior;
+    if (!securityHeadersBehavior) return undefined;
+    this.securityResponseHeadersPolicy ??= new ResponseHeadersPolicy(this, 'SecurityResponseHeadersPolicy', {
+      comment: 'Nextjs Security Headers',
+      securityHeadersBehavior,
+    });
+    return this.securityResponseHeadersPolicy;
+  }
+
+  /**
+   * CloudFront only supports one response headers policy per behavior so
+   * user's policies can't be merged with `securityHeaders`.
+   */
+  private warnIfSecurityHeadersIgnored() {
+    const { cachePolicies, securityHeaders } = this.props;
+    if (!securityHeaders) return;
+    const overriddenPolicies = [
+      cachePolicies?.staticResponseHeaderPolicy && 'staticResponseHeaderPolicy',
+      cachePolicies?.serverResponseHeadersPolicy && 'serverResponseHeadersPolicy',
+      cachePolicies?.imageResponseHeadersPolicy && 'imageResponseHeadersPolicy',
+    ].filter(Boolean);
+    if (!overriddenPolicies.length) return;
+    Annotations.of(this).addWarning(
+      `"securityHeaders" are not added to ${overriddenPolicies.join(', ')}. Include security headers in them.`
+    );
+  }
+
+  /**
+   * Maps origin error status codes to pages in static assets bucket.
+   */
+  private getErrorResponses(): cloudfront.ErrorResponse[] {
+    const { errorPages } = this.props;
+    if (!errorPages) return [];
+    const ttl = errorPages.ttl ?? Duration.seconds(10);
+    const toErrorResponse = (httpStatus: number, pagePath: string, responseHttpStatus = httpStatus) => ({
+      httpStatus,
+      responseHttpStatus,
+      responsePagePath: `${this.props.basePath ?? ''}${pagePath}`,
+      ttl,
+    });
+    const notFoundPagePath = this.getErrorPagePath(errorPages.notFoundPagePath, '/404.html', '404.html');
+    const serverErrorPagePath = this.getErrorPagePath(errorPages.serverErrorPagePath, '/500.html', '500.html');
+    const errorResponses: cloudfront.ErrorResponse[] = [];
+    if (notFoundPagePath) {
+      errorResponses.push(toErrorResponse(404, notFoundPagePath));
+    }
+    if (serverErrorPagePath) {
+      for (const status of [500, 502, 503, 504]) errorResponses.push(toErrorResponse(status, serverErrorPagePath));
+    }
+    return errorResponses;
+  }
+
+  /**
+   * Returns `pagePath` if set, otherwise `defaultPagePath` if it exists in
+   * `public` or else path of Next.js' prerendered `nextErrorPage` copied to
+   * static assets. Throws if `pagePath` doesn't exist.
+   */
+  private getErrorPagePath(
+    pagePath: string | undefined,
+    defaultPagePath?: string,
+    nextErrorPage?: string
+  ): string | undefined {
+    const publicFiles = this.props.nextBuild.readPublicFileList().map((f) => f.split(path.sep).join('/'));
+    if (pagePath) {
+      const normalizedPagePath = pagePath.startsWith('/') ? pagePath : `/${pagePath}`;
+      if (!publicFiles.includes(normalizedPagePath)) {
+        throw new Error(`Error page "${pagePath}" not found in ${this.props.nextBuild.nextStaticDir}.`);
+      }
+      return normalizedPagePath;
+    }
+    if (defaultPagePath && publicFiles.includes(defaultPagePath)) return defaultPagePath;
+    return Object.keys(this.props.nextBuild.nextErrorPages).find((key) => path.posix.basename(key) === nextErrorPage);
+  }
+
+  /**
+   * Error pages are fetched by CloudFront without running CloudFront
+   * Functions so they need their own behaviors when static files are routed
+   * by CloudFront Function.
+   */
+  private addErrorPageBehaviors() {
+    if (!this.isStaticRoutingFunction) return;
+    const basePathLength = (this.props.basePath ?? '').length;
+    const pagePaths = new Set(this.errorResponses.map((r) => r.responsePagePath!.slice(basePathLength + 1)));
+    for (const pagePath of pagePaths) {
+      // prerendered pages are served by `_next/static/*` behavior
+      if (pagePath.startsWith('_next/static/')) continue;
+      this.distribution.addBehavior(this.getPathPattern(pagePath), this.s3Origin, this.staticBehaviorOptions);
+    }
+  }
+
   /**
    * If this doesn't run, then Next.js Server's `request.url` will be Lambda Function
    * URL instead of domain
    */
   private createCloudFrontFnAssociations() {
+    const { maintenance } = this.props;
+    const isJs2Runtime = this.isStaticRoutingFunction || !!maintenance;
     const cloudFrontFn = new cloudfront.Function(this, 'CloudFrontFn', {
-      code: cloudfront.FunctionCode.fromInline(`
+      code: cloudfront.FunctionCode.fromInline(
+        isJs2Runtime
+          ? this.getJs2FnCode()
+          : `
       function handler(event) {
         var request = event.request;
         request.headers["x-forwarded-host"] = request.headers.host;
         return request;
       }
-      `),
+      `
+      ),
     });
+    const cfnFunction = cloudFrontFn.node.defaultChild as cloudfront.CfnFunction;
+    if (isJs2Runtime) {
+      // `cf.selectRequestOriginById` and KeyValueStore require cloudfront-js-2.0 runtime
+      cfnFunction.addPropertyOverride('FunctionConfig.Runtime', 'cloudfront-js-2.0');
+    }
+    if (maintenance) {
+      cfnFunction.addPropertyOverride('FunctionConfig.KeyValueStoreAssociations', [
+        { KeyValueStoreARN: maintenance.keyValueStoreArn },
+      ]);
+    }
     return [{ eventType: cloudfront.FunctionEventType.VIEWER_REQUEST, function: cloudFrontFn }];
   }
 
-  private createImageBehaviorOptions(): cloudfront.BehaviorOptions {
-    const imageOptFnUrl = this.props.imageOptFunction.addFunctionUrl({ authType: this.fnUrlAuthType });
-    const origin = new origins.HttpOrigin(Fn.parseDomainName(imageOptFnUrl.url));
+  /**
+   * Sets `x-forwarded-host` like default CloudFront Function and, if enabled,
+   * serves maintenance page and routes static files.
+   */
+  private getJs2FnCode() {
+    const code = `
+      import cf from 'cloudfront';
+      var BASE_PATH = ${JSON.stringify(this.props.basePath ?? '')};
+      var STATIC_ORIGIN_ID = ${JSON.stringify(this.staticOriginId)};
+      ${this.props.maintenance ? this.getMaintenanceFnCode(this.props.maintenance) : ''}
+      ${this.isStaticRoutingFunction ? this.getStaticRoutingFnCode() : ''}
+      async function handler(event) {
+        var request = event.request;
+        request.headers["x-forwarded-host"] = request.headers.host;
+        ${this.props.maintenance ? 'if (await isMaintenance(event)) return serveMaintenance(request);' : ''}
+        ${this.isStaticRoutingFunction ? 'routeStatic(request);' : ''}
+        return request;
+      }
+      `;
+    // see https://docs.aws.amazon.com/AmazonCloudFront/latest/DeveloperGuide/cloudfront-limits.html#limits-functions
+    if (Buffer.byteLength(code) > 10_240) {
+      throw new Error(
+        "Too many top level public/ files for static routing CloudFront Function's 10 KB limit. Move files into directories."
+      );
+    }
+    return code;
+  }
+
+  /**
+   * Maintenance mode is on while KeyValueStore's flag is `on` unless viewer's
+   * IP is allowed or viewer has bypass cookie. Maintenance page is either
+   * served from static assets bucket or built-in with 503 status.
+   */
+  private getMaintenanceFnCode(maintenance: NextjsMaintenance) {
+    const pagePath = maintenance.pagePath ? this.getErrorPagePath(maintenance.pagePath) : undefined;
+    return `
+      var kvs = cf.kvs(${JSON.stringify(maintenance.keyValueStoreId)});
+      var ALLOWED_IPS = ${JSON.stringify(maintenance.allowedIps)};
+      var BYPASS_COOKIE_VALUE = ${JSON.stringify(maintenance.bypassCookieValue ?? null)};
+      var MAINTENANCE_PAGE_PATH = ${JSON.stringify(pagePath ?? null)};
+      async function isMaintenance(event) {
+        if (ALLOWED_IPS.includes(event.viewer.ip)) return false;
+        var bypassCookie = event.request.cookies[${JSON.stringify(MAINTENANCE_BYPASS_COOKIE)}];
+        if (BYPASS_COOKIE_VALUE && bypassCookie && bypassCookie.value === BYPASS_COOKIE_VALUE) return false;
+        try {
+          return (await kvs.get(${JSON.stringify(MAINTENANCE_KEY)})) === "on";
+        } catch (e) {
+          // key doesn't exist
+          return false;
+        }
+      }
+      function serveMaintenance(request) {
+        if (MAINTENANCE_PAGE_PATH) {
+          request.uri = BASE_PATH + MAINTENANCE_PAGE_PATH;
+          request.querystring = {};
+          cf.selectRequestOriginById(STATIC_ORIGIN_ID);
+          return request;
+        }
+        return {
+          statusCode: 503,
+          statusDescription: "Service Unavailable",
+          headers: { "content-type": { value: "text/html" }, "retry-after": { value: "60" } },
+          body: { encoding: "text", data: "<!DOCTYPE html><title>Maintenance</title><h1>Down for maintenance</h1><p>Please check back soon.</p>" },
+        };
+      }
+      `;
+  }
+
+  /**
+   * Routes requests for top level files and directories of static assets to
+   * static assets bucket. Everything else continues to server.
+   */
+  private getStaticRoutingFnCode() {
+    const dirs = new Set<string>();
+    const files = new Set<string>();
+    for (const file of this.props.nextBuild.readPublicFileList()) {
+      const [topLevel, ...rest] = file.split(path.sep).join('/').slice(1).split('/');
+      // `_next/static/*` has its own behavior, `_next/data/*` and `_next/image*` are served by functions
+      if (topLevel === '_next') continue;
+      (rest.length ? dirs : files).add(topLevel);
+    }
+    const serverCacheKeyHeaders = NextjsDistribution.serverCachePolicyProps.headerBehavior?.headers ?? [];
+    return `
+      var STATIC_DIRS = ${JSON.stringify([...dirs])};
+      var STATIC_FILES = ${JSON.stringify([...files])};
+      var SERVER_CACHE_KEY_HEADERS = ${JSON.stringify(serverCacheKeyHeaders)};
+      function routeStatic(request) {
+        if (!request.uri.startsWith(BASE_PATH + "/")) return;
+        var uri = request.uri.slice(BASE_PATH.length + 1);
+        var slashIndex = uri.indexOf("/");
+        var isStatic = slashIndex === -1
+          ? STATIC_FILES.includes(uri)
+          : STATIC_DIRS.includes(uri.slice(0, slashIndex));
+        if (isStatic) {
+          // server behavior's policies apply so strip what's only relevant to
+          // server to cache static file once and not forward it to bucket
+          request.querystring = {};
+          request.cookies = {};
+          SERVER_CACHE_KEY_HEADERS.forEach(function (h) { delete request.headers[h]; });
+          cf.selectRequestOriginById(STATIC_ORIGIN_ID);
+        }
+      }
+      `;
+  }
+
+  private createImageBehaviorOptions(imageOptFunction: lambda.IFunction): cloudfront.BehaviorOptions {
+    const origin = this.createFnUrlOrigin(imageOptFunction, { verifyOrigin: true });
     const originRequestPolicy =
       this.props.originRequestPolicies?.imageOptimizationOriginRequestPolicy ??
       cloudfront.OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER;
     const cachePolicy =
       this.props.cachePolicies?.imageCachePolicy ??
-      new cloudfront.CachePolicy(this, 'ImageCachePolicy', NextjsDistribution.imageCachePolicyProps);
+      new cloudfront.CachePolicy(this, 'ImageCachePolicy', this.getImageCachePolicyProps());
     return {
       ...this.commonBehaviorOptions,
       origin,
@@ -415,7 +1030,50 @@ export class NextjsDistribution extends Construct {
       cachedMethods: cloudfront.CachedMethods.CACHE_GET_HEAD_OPTIONS,
       cachePolicy,
       originRequestPolicy,
-      edgeLambdas: this.edgeLambdas,
+      edgeLambdas: this.edgeLambdas.length ? this.edgeLambdas : undefined,
+      responseHeadersPolicy:
+        this.props.cachePolicies?.imageResponseHeadersPolicy ?? this.getSecurityResponseHeadersPolicy(),
+    };
+  }
+
+  /**
+   * Never cached so every request reaches function. Reuses server behavior's
+   * CloudFront Function so `x-forwarded-host` is set.
+   */
+  private createRevalidationBehaviorOptions(revalidationFunction: lambda.IFunction): cloudfront.BehaviorOptions {
+    const origin = this.createFnUrlOrigin(revalidationFunction, { verifyOrigin: true });
+    return {
+      ...this.commonBehaviorOptions,
+      origin,
+      allowedMethods: cloudfront.AllowedMethods.ALLOW_ALL,
+      cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
+      originRequestPolicy: cloudfront.OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER,
+      edgeLambdas: this.edgeLambdas.length ? this.edgeLambdas : undefined,
+      functionAssociations: this.serverBehaviorOptions.functionAssociations,
+      responseHeadersPolicy: this.getSecurityResponseHeadersPolicy(),
+    };
+  }
+
+  /**
+   * Derives image cache policy from `images` in `next.config.js`. Optimized
+   * images don't depend on cookies, are only negotiated by `Accept` header if
+   * `formats` are set and CloudFront keeps them for at least `minimumCacheTTL`.
+   */
+  private getImageCachePolicyProps(): cloudfront.CachePolicyProps {
+    const imagesConfig = this.props.nextBuild.nextImagesConfig;
+    if (!imagesConfig) return NextjsDistribution.imageCachePolicyProps;
+    const minTtl = Duration.seconds(imagesConfig.minimumCacheTTL ?? 0);
+    const defaultTtl = NextjsDistribution.imageCachePolicyProps.defaultTtl!;
+    return {
+      ...NextjsDistribution.imageCachePolicyProps,
+      // next/image only reads `url`, `w` and `q` so other query strings would fragment cache
+      queryStringBehavior: cloudfront.CacheQueryStringBehavior.allowList('url', 'w', 'q'),
+      headerBehavior: imagesConfig.formats?.length
+        ? cloudfront.CacheHeaderBehavior.allowList('accept')
+        : cloudfront.CacheHeaderBehavior.none(),
+      cookieBehavior: cloudfront.CacheCookieBehavior.none(),
+      minTtl,
+      defaultTtl: minTtl.toSeconds() > defaultTtl.toSeconds() ? minTtl : defaultTtl,
     };
   }
 
@@ -437,22 +1095,6 @@ export class NextjsDistribution extends Construct {
       distribution = this.createCloudFrontDistribution();
     }
 
-    distribution.addBehavior(
-      this.getPathPattern('api/*'),
-      this.serverBehaviorOptions.origin,
-      this.serverBehaviorOptions
-    );
-    distribution.addBehavior(
-      this.getPathPattern('_next/data/*'),
-      this.serverBehaviorOptions.origin,
-      this.serverBehaviorOptions
-    );
-    distribution.addBehavior(
-      this.getPathPattern('_next/image*'),
-      this.imageBehaviorOptions.origin,
-      this.imageBehaviorOptions
-    );
-
     return distribution;
   }
 
@@ -476,6 +1118,7 @@ export class NextjsDistribution extends Construct {
       domainNames,
       certificate: this.certificate,
       defaultBehavior: this.serverBehaviorOptions,
+      errorResponses: this.errorResponses.length ? this.errorResponses : undefined,
     });
   }
 
@@ -501,24 +1144,116 @@ export class NextjsDistribution extends Construct {
     }
   }
 
+  /**
+   * Added before other behaviors so it isn't shadowed by server or static behaviors.
+   */
+  private addRevalidationBehavior() {
+    if (!this.revalidationBehaviorOptions) return;
+    const pathPattern = this.props.revalidationPath ?? DEFAULT_REVALIDATION_PATH;
+    this.validatePathPattern(pathPattern);
+    this.distribution.addBehavior(
+      this.getPathPattern(pathPattern),
+      this.revalidationBehaviorOptions.origin,
+      this.revalidationBehaviorOptions
+    );
+  }
+
+  /**
+   * Adds behaviors for open-next v2 which doesn't output `open-next.output.json`
+   */
+  private addDynamicBehaviorsToDistribution() {
+    this.distribution.addBehavior(
+      this.getPathPattern('api/*'),
+      this.serverBehaviorOptions.origin,
+      this.serverBehaviorOptions
+    );
+    this.distribution.addBehavior(
+      this.getPathPattern('_next/data/*'),
+      this.serverBehaviorOptions.origin,
+      this.serverBehaviorOptions
+    );
+    if (this.imageBehaviorOptions) {
+      this.distribution.addBehavior(
+        this.getPathPattern('_next/image*'),
+        this.imageBehaviorOptions.origin,
+        this.imageBehaviorOptions
+      );
+    }
+  }
+
   private addStaticBehaviorsToDistribution() {
-    const publicFiles = fs.readdirSync(path.join(this.props.nextjsPath, NEXTJS_BUILD_DIR, NEXTJS_STATIC_DIR), {
+    const publicFiles = fs.readdirSync(this.props.nextBuild.nextStaticDir, {
       withFileTypes: true,
     });
-    if (publicFiles.length >= 25) {
-      throw new Error(
-        `Too many public/ files in Next.js build. CloudFront limits Distributions to 25 Cache Behaviors. See documented limit here: https://docs.aws.amazon.com/AmazonCloudFront/latest/DeveloperGuide/cloudfront-limits.html#limits-web-distributions`
-      );
-    }
+    this.validateStaticBehaviorCount(publicFiles.length);
     for (const publicFile of publicFiles) {
       const pathPattern = publicFile.isDirectory() ? `${publicFile.name}/*` : publicFile.name;
-      if (!/^[a-zA-Z0-9_\-\.\*\$/~"'@:+?&]+$/.test(pathPattern)) {
+      this.validatePathPattern(pathPattern);
+      const finalPathPattern = this.getPathPattern(pathPattern);
+      this.distribution.addBehavior(finalPathPattern, this.s3Origin, this.staticBehaviorOptions);
+    }
+  }
+
+  /**
+   * Adds behaviors listed in open-next v3's `open-next.output.json` in the
+   * order open-next lists them. The catch all (`*`) behavior is skipped as
+   * it's handled by the default behavior and `addRootPathBehavior`.
+   *
+   * `api/*` and `_next/data/*` are routed to the server first (unless listed)
+   * so that they're not shadowed by the `_next/*` static behavior.
+   */
+  private addOpenNextBehaviorsToDistribution({ origins: openNextOrigins, behaviors }: OpenNextOutput) {
+    const isStaticBehavior = (b: OpenNextBehavior) => !!b.origin && openNextOrigins[b.origin]?.type === 's3';
+    if (!this.isStaticRoutingFunction) {
+      this.validateStaticBehaviorCount(behaviors.filter(isStaticBehavior).length);
+    }
+    const serverBehaviors = ['api/*', '_next/data/*']
+      .filter((pattern) => !behaviors.some((b) => b.pattern === pattern))
+      .map((pattern): OpenNextBehavior => ({ pattern, origin: 'default' }));
+    for (const behavior of [...serverBehaviors, ...behaviors]) {
+      if (behavior.pattern === '*') continue;
+      // only `_next/*` is kept, other static files are routed by CloudFront Function
+      if (this.isStaticRoutingFunction && isStaticBehavior(behavior) && !behavior.pattern.startsWith('_next/'))
+        continue;
+      // images are unoptimized so `_next/image*` isn't needed
+      if (behavior.origin === 'imageOptimizer' && !this.imageBehaviorOptions) continue;
+      if (behavior.edgeFunction) {
         throw new Error(
-          `Invalid CloudFront Distribution Cache Behavior Path Pattern: ${pathPattern}. Please see documentation here: https://docs.aws.amazon.com/AmazonCloudFront/latest/DeveloperGuide/distribution-web-values-specify.html#DownloadDistValuesPathPattern`
+          `Edge function "${behavior.edgeFunction}" for behavior "${behavior.pattern}" in open-next.output.json is not supported.`
         );
       }
-      const finalPathPattern = this.getPathPattern(pathPattern);
-      this.distribution.addBehavior(finalPathPattern, this.s3Origin, this.staticBehaviorOptions);
+      this.validatePathPattern(behavior.pattern);
+      const behaviorOptions = this.getOpenNextOriginBehaviorOptions(openNextOrigins, behavior.origin);
+      this.distribution.addBehavior(this.getPathPattern(behavior.pattern), behaviorOptions.origin, behaviorOptions);
+    }
+  }
+
+  private getOpenNextOriginBehaviorOptions(
+    openNextOrigins: OpenNextOutput['origins'],
+    originKey: string | undefined
+  ): cloudfront.BehaviorOptions {
+    const origin = originKey ? openNextOrigins[originKey] : undefined;
+    if (origin?.type === 's3') return this.staticBehaviorOptions;
+    if (originKey === 'imageOptimizer' && this.imageBehaviorOptions) return this.imageBehaviorOptions;
+    if (originKey === 'default') return this.serverBehaviorOptions;
+    throw new Error(
+      `Origin "${originKey}" in open-next.output.json is not supported. Only "default", "imageOptimizer" and s3 origins are supported.`
+    );
+  }
+
+  private validateStaticBehaviorCount(count: number) {
+    if (count >= 25) {
+      throw new Error(
+        `Too many public/ files in Next.js build. CloudFront limits Distributions to 25 Cache Behaviors. See documented limit here: https://docs.aws.amazon.com/AmazonCloudFront/latest/DeveloperGuide/cloudfront-limits.html#limits-web-distributions`
+      );
+    }
+  }
+
+  private validatePathPattern(pathPattern: string) {
+    if (!/^[a-zA-Z0-9_\-\.\*\$/~"'@:+?&]+$/.test(pathPattern)) {
+      throw new Error(
+        `Invalid CloudFront Distribution Cache Behavior Path Pattern: ${pathPattern}. Please see documentation here: https://docs.aws.amazon.com/AmazonCloudFront/latest/DeveloperGuide/distribution-web-values-specify.html#DownloadDistValuesPathPattern`
+      );
     }
   }
 
@@ -545,6 +1280,27 @@ export class NextjsDistribution extends Construct {
     return customDomain ? [customDomain, ...alternateNames] : [];
   }
 
+  private validateStaticRoutingSettings() {
+    const serverOriginRequestPolicy = this.props.originRequestPolicies?.serverOriginRequestPolicy;
+    if (
+      this.isStaticRoutingFunction &&
+      serverOriginRequestPolicy?.originRequestPolicyId ===
+        cloudfront.OriginRequestPolicy.ALL_VIEWER.originRequestPolicyId
+    ) {
+      throw new Error(
+        'Static routing FUNCTION routes static files with "serverOriginRequestPolicy" which must not forward Host header to static assets bucket. Use OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER.'
+      );
+    }
+  }
+
+  private validateStreamingSettings() {
+    if (this.props.streaming && this.isFnUrlEdgeLambdaSigning) {
+      throw new Error(
+        'Response streaming is not supported with the Lambda@Edge function that signs requests when "functionUrlAuthType" is AWS_IAM. Opt into "functionUrlSigning: NextjsFunctionUrlSigning.ORIGIN_ACCESS_CONTROL", use FunctionUrlAuthType.NONE or disable "streaming".'
+      );
+    }
+  }
+
   /////////////////////
   // Custom Domain
   /////////////////////
@@ -685,3 +1441,49 @@ export class NextjsDistribution extends Construct {
     }
   }
 }
+
+/**
+ * S3 origin authenticated with Origin Access Control. `S3Origin` only
+ * supports Origin Access Identity.
+ */
+class S3OriginAccessControlOrigin extends cloudfront.OriginBase {
+  constructor(
+    bucket: s3.IBucket,
+    private readonly originAccessControl: cloudfront.CfnOriginAccessControl,
+    props?: cloudfront.OriginProps
+  ) {
+    super(bucket.bucketRegionalDomainName, props);
+  }
+
+  public bind(scope: Construct, options: cloudfront.OriginBindOptions): cloudfront.OriginBindConfig {
+    const config = super.bind(scope, options);
+    return {
+      ...config,
+      originProperty: { ...config.originProperty!, originAccessControlId: this.originAccessControl.attrId },
+    };
+  }
+
+  protected renderS3OriginConfig(): cloudfront.CfnDistribution.S3OriginConfigProperty {
+    // empty identity is required for S3 origins using Origin Access Control
+    return { originAccessIdentity: '' };
+  }
+}
+
+/**
+ * Adds Origin Access Control to `origin` i.e. for function URLs which
+ * `HttpOrigin` doesn't support.
+ */
+class OriginAccessControlOrigin implements cloudfront.IOrigin {
+  constructor(
+    private readonly origin: cloudfront.IOrigin,
+    private readonly originAccessControl: cloudfront.CfnOriginAccessControl
+  ) {}
+
+  public bind(scope: Construct, options: cloudfront.OriginBindOptions): cloudfront.OriginBindConfig {
+    const config = this.origin.bind(scope, options);
+    return {
+      ...config,
+      originProperty: { ...config.originProperty!, originAccessControlId: this.originAccessControl.attrId },
+    };
+  }
+}
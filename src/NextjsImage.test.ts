@@ -0,0 +1,89 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { Architecture } from 'aws-cdk-lib/aws-lambda';
+import { Bucket } from 'aws-cdk-lib/aws-s3';
+import { Construct } from 'constructs';
+import { NextjsImage, NextjsImageProps } from './NextjsImage';
+import { createNextjsBuild, FUNCTION_CODE, useNextjsApps } from './test-utils';
+
+describe('NextjsImage', () => {
+  const createNextjsApp = useNextjsApps();
+
+  function createNextjsPath({ sharpVersion = '0.32.6' } = {}) {
+    return createNextjsApp({
+      '.next/BUILD_ID': 'build',
+      '.open-next/image-optimization-function/index.mjs': FUNCTION_CODE,
+      '.open-next/image-optimization-function/node_modules/sharp/package.json': JSON.stringify({
+        version: sharpVersion,
+      }),
+    });
+  }
+
+  function createImage(scope: Construct, id: string, nextjsPath: string, props: Partial<NextjsImageProps> = {}) {
+    const nextBuild = createNextjsBuild(scope, nextjsPath, `${id}Build`);
+    return new NextjsImage(scope, id, {
+      nextjsPath,
+      nextBuild,
+      bucket: new Bucket(scope, `${id}Bucket`),
+      ...props,
+    });
+  }
+
+  test('sites should share sharp layer of same architecture and version', () => {
+    const stack = new Stack(new App(), 'Stack');
+    const imageA = createImage(stack, 'A', createNextjsPath());
+    const imageB = createImage(stack, 'B', createNextjsPath());
+    expect(imageA.sharpLayer).toBe(imageB.sharpLayer);
+    Template.fromStack(stack).resourceCountIs('AWS::Lambda::LayerVersion', 1);
+  });
+
+  test('sites should not share sharp layer of different architecture or version', () => {
+    const stack = new Stack(new App(), 'Stack');
+    const imageA = createImage(stack, 'A', createNextjsPath());
+    const imageB = createImage(stack, 'B', createNextjsPath(), {
+      lambdaOptions: { architecture: Architecture.X86_64 },
+    });
+    const imageC = createImage(stack, 'C', createNextjsPath({ sharpVersion: '0.33.0' }));
+    expect(new Set([imageA.sharpLayer, imageB.sharpLayer, imageC.sharpLayer]).size).toBe(3);
+    const template = Template.fromStack(stack);
+    template.resourceCountIs('AWS::Lambda::LayerVersion', 3);
+    template.hasResourceProperties('AWS::Lambda::LayerVersion', { CompatibleArchitectures: ['x86_64'] });
+  });
+
+  test('image cache should default to dedicated bucket and wrap handler', () => {
+    const stack = new Stack(new App(), 'Stack');
+    const image = createImage(stack, 'A', createNextjsPath(), { imageCache: {} });
+    expect(image.imageCacheBucket).not.toBe(image.node.tryFindChild('ABucket'));
+    const template = Template.fromStack(stack);
+    template.resourceCountIs('AWS::S3::Bucket', 2);
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Handler: 'nextjs-image-cache.handler',
+      Environment: {
+        Variables: Match.objectLike({
+          IMAGE_CACHE_BUCKET_NAME: { Ref: Match.stringLikeRegexp('^AImageCacheBucket') },
+          IMAGE_CACHE_KEY_PREFIX: '_image-cache',
+          IMAGE_CACHE_SOURCE_VERSION: 'build',
+          IMAGE_CACHE_HANDLER: 'index.handler',
+          IMAGE_CACHE_FORMATS: 'image/webp',
+        }),
+      },
+    });
+  });
+
+  test('image cache lifecycle rules should be unique for sites sharing bucket', () => {
+    const stack = new Stack(new App(), 'Stack');
+    const bucket = new Bucket(stack, 'ImageCacheBucket');
+    const imageA = createImage(new Construct(stack, 'SiteA'), 'Image', createNextjsPath(), {
+      imageCache: { bucket, keyPrefix: 'a' },
+    });
+    const imageB = createImage(new Construct(stack, 'SiteB'), 'Image', createNextjsPath(), {
+      imageCache: { bucket, keyPrefix: 'b' },
+    });
+    expect(imageA.imageCacheBucket).toBe(bucket);
+    expect(imageB.imageCacheBucket).toBe(bucket);
+    const [resource] = Object.values(Template.fromStack(stack).findResources('AWS::S3::Bucket'));
+    const ruleIds = resource.Properties.LifecycleConfiguration.Rules.map((rule: { Id: string }) => rule.Id);
+    expect(ruleIds).toHaveLength(2);
+    expect(new Set(ruleIds).size).toBe(2);
+  });
+});
@@ -1,9 +1,63 @@
-import { Code, Function as LambdaFunction, FunctionOptions } from 'aws-cdk-lib/aws-lambda';
-import { IBucket } from 'aws-cdk-lib/aws-s3';
+import { createHash } from 'node:crypto';
+import { cpSync, existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { Annotations, Duration, Names, RemovalPolicy, Stack } from 'aws-cdk-lib';
+import {
+  Architecture,
+  Code,
+  ILayerVersion,
+  Function as LambdaFunction,
+  FunctionOptions,
+  LayerVersion,
+} from 'aws-cdk-lib/aws-lambda';
+import { BlockPublicAccess, Bucket, BucketEncryption, IBucket } from 'aws-cdk-lib/aws-s3';
+import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
 import { Construct } from 'constructs';
+import { IMAGE_CACHE_BUCKET_KEY_PREFIX } from './constants';
 import { NextjsBaseProps } from './NextjsBase';
 import type { NextjsBuild } from './NextjsBuild';
 import { getCommonFunctionProps } from './utils/common-lambda-props';
+import { createWrappedCodeDir } from './utils/create-wrapped-code-dir';
+import {
+  getImageCacheEnvironment,
+  getImageCacheFilePath,
+  IMAGE_CACHE_FILE_NAME,
+  IMAGE_CACHE_HANDLER,
+} from './utils/image-cache';
+import {
+  getOriginVerifyEnvironment,
+  getOriginVerifyFilePath,
+  ORIGIN_VERIFY_FILE_NAME,
+  ORIGIN_VERIFY_HANDLER,
+} from './utils/origin-verify';
+
+// sharp layer is created once per stack, architecture and sharp version and
+// shared by all `Nextjs` sites
+const SHARP_LAYER_ID_PREFIX = 'NextjsSharpLayer';
+
+export interface NextjsImageCacheProps {
+  /**
+   * Bucket to store optimized images in. Don't use static assets bucket as
+   * it's pruned on each deployment which would clear optimized images.
+   * @default - dedicated bucket is created
+   */
+  readonly bucket?: IBucket;
+  /**
+   * Key prefix of optimized images within `bucket`. Optimized images are
+   * stored at `{keyPrefix}/{buildId}/{url}/{width}-{quality}.{extension}`
+   * i.e. `_image-cache/a1b2c3/images/shoe.png/640-75.webp` so a changed image
+   * at the same url isn't served from cache after next deployment.
+   * @default "_image-cache"
+   */
+  readonly keyPrefix?: string;
+  /**
+   * How long optimized images are kept before S3 lifecycle rule expires them.
+   * Only applied if `bucket` is created within this app (not imported).
+   * @default Duration.days(30)
+   */
+  readonly retention?: Duration;
+}
 
 export interface NextjsImageProps extends NextjsBaseProps {
   /**
@@ -18,28 +72,191 @@ export interface NextjsImageProps extends NextjsBaseProps {
    * The `NextjsBuild` instance representing the built Nextjs application.
    */
   readonly nextBuild: NextjsBuild;
+  /**
+   * Persist optimized images to S3 so CloudFront cache misses don't re-run
+   * sharp. Handler is wrapped to serve optimized images from cache and write
+   * them on miss. Disabled if omitted.
+   */
+  readonly imageCache?: NextjsImageCacheProps;
+  /**
+   * Wrap handler so requests without `x-origin-verify` header matching this
+   * secret are rejected.
+   */
+  readonly originVerifySecret?: ISecret;
 }
 
 /**
  * This lambda handles image optimization.
  */
 export class NextjsImage extends LambdaFunction {
+  /**
+   * Bucket optimized images are persisted to. Only defined if `imageCache` is set.
+   */
+  public readonly imageCacheBucket?: IBucket;
+  /**
+   * Key prefix of optimized images within `imageCacheBucket`.
+   */
+  public readonly imageCacheKeyPrefix?: string;
+  /**
+   * Layer providing sharp. Undefined if sharp wasn't found.
+   */
+  public readonly sharpLayer?: ILayerVersion;
+
   constructor(scope: Construct, id: string, props: NextjsImageProps) {
-    const { lambdaOptions, bucket } = props;
+    const { lambdaOptions, bucket, imageCache, originVerifySecret } = props;
+    const imageCacheKeyPrefix = imageCache ? imageCache.keyPrefix ?? IMAGE_CACHE_BUCKET_KEY_PREFIX : undefined;
+    const nodeModulesDir = join(props.nextBuild.nextImageFnDir, 'node_modules');
+    const hasSharpLayer = !!(props.sharpLayerArn || props.sharpLayerPath || existsSync(join(nodeModulesDir, 'sharp')));
+
+    // handlers are chained: origin verify -> image cache -> open-next
+    const originalHandler = props.nextBuild.openNextOutput?.origins.imageOptimizer?.handler ?? 'index.handler';
+    const imageCacheHandler = imageCache ? IMAGE_CACHE_HANDLER : originalHandler;
+    const handler = originVerifySecret ? ORIGIN_VERIFY_HANDLER : imageCacheHandler;
+    const codeDir =
+      originVerifySecret || imageCache
+        ? createWrappedCodeDir(props.nextBuild.nextImageFnDir, {
+            ...(originVerifySecret ? { [ORIGIN_VERIFY_FILE_NAME]: getOriginVerifyFilePath() } : {}),
+            ...(imageCache ? { [IMAGE_CACHE_FILE_NAME]: getImageCacheFilePath() } : {}),
+          })
+        : undefined;
 
     const commonFnProps = getCommonFunctionProps(scope);
     super(scope, id, {
       ...commonFnProps,
-      code: Code.fromAsset(props.nextBuild.nextImageFnDir),
-      handler: 'index.handler',
+      // sharp and its dependencies are provided by layer
+      code: Code.fromAsset(
+        codeDir ?? props.nextBuild.nextImageFnDir,
+        hasSharpLayer ? { exclude: ['node_modules'] } : {}
+      ),
+      handler,
       description: 'Next.js Image Optimization Function',
       ...lambdaOptions,
       environment: {
         BUCKET_NAME: bucket.bucketName,
+        ...(originVerifySecret
+          ? getOriginVerifyEnvironment({ secret: originVerifySecret, handler: imageCacheHandler })
+          : {}),
         ...lambdaOptions?.environment,
       },
     });
+    // asset is staged into cdk.out/ when function is created. This cleans up tmp folder
+    if (codeDir) rmSync(codeDir, { recursive: true });
+    originVerifySecret?.grantRead(this);
+    if (imageCache) {
+      this.imageCacheBucket = imageCache.bucket ?? this.createImageCacheBucket();
+      this.imageCacheKeyPrefix = imageCacheKeyPrefix;
+      const environment = getImageCacheEnvironment({
+        bucketName: this.imageCacheBucket.bucketName,
+        keyPrefix: imageCacheKeyPrefix!,
+        sourceVersion: props.nextBuild.nextBuildId,
+        handler: originalHandler,
+        formats: props.nextBuild.nextImagesConfig?.formats ?? ['image/webp'],
+      });
+      for (const [key, value] of Object.entries(environment)) {
+        this.addEnvironment(key, value);
+      }
+    }
+
+    if (props.sharpLayerArn) {
+      this.sharpLayer = LayerVersion.fromLayerVersionArn(this, 'SharpLayer', props.sharpLayerArn);
+    } else if (hasSharpLayer) {
+      this.sharpLayer = getOrCreateSharpLayer(this, {
+        sharpLayerPath: props.sharpLayerPath,
+        nodeModulesDir,
+        architecture: lambdaOptions?.architecture ?? commonFnProps.architecture!,
+      });
+    }
+    if (this.sharpLayer) {
+      this.addLayers(this.sharpLayer);
+    }
 
     bucket.grantRead(this);
+    this.createImageCacheLifecycleRule(imageCache?.retention ?? Duration.days(30));
+  }
+
+  /**
+   * Dedicated so static assets deployment, which prunes its bucket, doesn't
+   * clear optimized images.
+   */
+  private createImageCacheBucket() {
+    return new Bucket(this, 'ImageCacheBucket', {
+      removalPolicy: RemovalPolicy.DESTROY,
+      autoDeleteObjects: true,
+      enforceSSL: true,
+      blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
+      encryption: BucketEncryption.S3_MANAGED,
+    });
+  }
+
+  private createImageCacheLifecycleRule(retention: Duration) {
+    if (!this.imageCacheBucket) return;
+    if (this.imageCacheBucket instanceof Bucket) {
+      this.imageCacheBucket.addLifecycleRule({
+        // unique so sites sharing a bucket don't collide
+        id: `${Names.uniqueId(this)}ImageCache`,
+        prefix: `${this.imageCacheKeyPrefix}/`,
+        expiration: retention,
+      });
+    } else {
+      Annotations.of(this).addWarning(
+        'Optimized image cache bucket is imported so lifecycle rule cannot be added. Expire optimized images manually.'
+      );
+    }
   }
 }
+
+/**
+ * Returns stack's sharp layer for `architecture` and sharp version, creating
+ * it from `sharpLayerPath` or, if omitted, from `nodeModulesDir`. Layers
+ * whose sharp version can't be read are keyed by `sharpLayerPath`.
+ */
+function getOrCreateSharpLayer(
+  scope: Construct,
+  {
+    sharpLayerPath,
+    nodeModulesDir,
+    architecture,
+  }: { sharpLayerPath?: string; nodeModulesDir: string; architecture: Architecture }
+) {
+  const stack = Stack.of(scope);
+  const sharpNodeModulesDir = sharpLayerPath ? join(sharpLayerPath, 'nodejs', 'node_modules') : nodeModulesDir;
+  const sharpVersion =
+    readSharpVersion(sharpNodeModulesDir) ??
+    createHash('sha256')
+      .update(resolve(sharpLayerPath ?? nodeModulesDir))
+      .digest('hex')
+      .slice(0, 8);
+  const layerId = `${SHARP_LAYER_ID_PREFIX}-${architecture.name}-${sharpVersion}`;
+  const existingLayer = stack.node.tryFindChild(layerId);
+  if (existingLayer) {
+    if (!(existingLayer instanceof LayerVersion)) {
+      throw new Error(`Cannot create sharp layer; "${layerId}" already exists in stack and is not a LayerVersion.`);
+    }
+    return existingLayer;
+  }
+
+  let layerDir = sharpLayerPath;
+  let tmpLayerDir: string | undefined;
+  if (!layerDir) {
+    // node.js layers must place packages in `nodejs/node_modules`
+    tmpLayerDir = mkdtempSync(join(tmpdir(), 'cdk-nextjs-sharp-layer-'));
+    cpSync(nodeModulesDir, join(tmpLayerDir, 'nodejs', 'node_modules'), { recursive: true, verbatimSymlinks: true });
+    layerDir = tmpLayerDir;
+  }
+  const { runtime } = getCommonFunctionProps(scope);
+  const layer = new LayerVersion(stack, layerId, {
+    code: Code.fromAsset(layerDir),
+    compatibleArchitectures: [architecture],
+    compatibleRuntimes: runtime ? [runtime] : undefined,
+    description: `sharp ${sharpVersion} (${architecture.name}) for Next.js Image Optimization Function`,
+  });
+  // LayerVersion creates asset which copies into cdk.out/. This cleans up tmp folder
+  if (tmpLayerDir) rmSync(tmpLayerDir, { recursive: true });
+  return layer;
+}
+
+function readSharpVersion(nodeModulesDir: string): string | undefined {
+  const packageJsonPath = join(nodeModulesDir, 'sharp', 'package.json');
+  if (!existsSync(packageJsonPath)) return undefined;
+  return JSON.parse(readFileSync(packageJsonPath, 'utf8')).version;
+}
@@ -0,0 +1,88 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { LayerVersion } from 'aws-cdk-lib/aws-lambda';
+import { Bucket } from 'aws-cdk-lib/aws-s3';
+import { NextjsImagePregeneration } from './NextjsImagePregeneration';
+import { createNextjsBuild, useNextjsApps } from './test-utils';
+
+describe('NextjsImagePregeneration', () => {
+  const createNextjsApp = useNextjsApps();
+
+  function createPregeneration() {
+    const nextjsPath = createNextjsApp({
+      '.open-next/assets/images/a.jpg': 'a',
+      '.open-next/assets/images/b.png': 'b',
+      '.next/BUILD_ID': 'build',
+    });
+    const stack = new Stack(new App(), 'Stack');
+    const nextBuild = createNextjsBuild(stack, nextjsPath);
+    const pregeneration = new NextjsImagePregeneration(stack, 'ImagePregeneration', {
+      nextjsPath,
+      nextBuild,
+      globs: ['images/*.jpg'],
+      widths: [640],
+      staticAssetsBucket: new Bucket(stack, 'StaticAssetsBucket'),
+      imageCacheBucket: new Bucket(stack, 'ImageCacheBucket'),
+      imageCacheKeyPrefix: '_image-cache',
+      sharpLayer: LayerVersion.fromLayerVersionArn(
+        stack,
+        'SharpLayer',
+        'arn:aws:lambda:us-east-1:123456789012:layer:sharp:1'
+      ),
+    });
+    return { pregeneration, template: Template.fromStack(stack) };
+  }
+
+  test('custom resource should reference manifest instead of inlining source keys', () => {
+    const { template } = createPregeneration();
+    template.hasResourceProperties('Custom::NextjsImagePregeneration', {
+      sourceKeys: Match.absent(),
+      manifestBucketName: Match.anyValue(),
+      manifestKey: Match.stringLikeRegexp('\\.json$'),
+      queueUrl: { Ref: Match.stringLikeRegexp('^ImagePregenerationQueue') },
+      destinationBucketName: { Ref: Match.stringLikeRegexp('^ImageCacheBucket') },
+      destinationKeyPrefix: '_image-cache',
+      destinationSourceVersion: 'build',
+      cacheControl: 'public, max-age=60, must-revalidate',
+    });
+  });
+
+  test('images should be optimized by queue worker instead of custom resource', () => {
+    const { pregeneration, template } = createPregeneration();
+    template.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+      FunctionName: { Ref: Match.stringLikeRegexp('^ImagePregenerationWorkerFn') },
+      BatchSize: 1,
+      FunctionResponseTypes: ['ReportBatchItemFailures'],
+    });
+    template.hasResourceProperties('AWS::SQS::Queue', {
+      VisibilityTimeout: 1800,
+      RedrivePolicy: Match.objectLike({ maxReceiveCount: 3 }),
+    });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Description: 'Next.js Image Pre-generation Worker Function',
+      Layers: ['arn:aws:lambda:us-east-1:123456789012:layer:sharp:1'],
+    });
+    // custom resource only queues images so it responds well within its timeout
+    expect(pregeneration.function.timeout?.toMinutes()).toBe(5);
+  });
+
+  test('should expose queued counts and alarm on images failing to optimize', () => {
+    const { pregeneration, template } = createPregeneration();
+    const stack = Stack.of(pregeneration);
+    expect(stack.resolve(pregeneration.queuedImageCount)).toEqual({
+      'Fn::GetAtt': [expect.stringMatching(/^ImagePregenerationCustomResource/), 'QueuedImageCount'],
+    });
+    expect(stack.resolve(pregeneration.queuedVariantCount)['Fn::GetAtt'][1]).toBe('QueuedVariantCount');
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      MetricName: 'ApproximateNumberOfMessagesVisible',
+      Dimensions: [
+        {
+          Name: 'QueueName',
+          Value: { 'Fn::GetAtt': [Match.stringLikeRegexp('^ImagePregenerationDeadLetterQueue'), 'QueueName'] },
+        },
+      ],
+      Threshold: 1,
+      ComparisonOperator: 'GreaterThanOrEqualToThreshold',
+    });
+  });
+});
@@ -0,0 +1,324 @@
+import { createHash } from 'node:crypto';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { CustomResource, Duration } from 'aws-cdk-lib';
+import { Alarm, ComparisonOperator, TreatMissingData } from 'aws-cdk-lib/aws-cloudwatch';
+import { AnyPrincipal, Effect, PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { Code, Function as LambdaFunction, FunctionOptions, ILayerVersion } from 'aws-cdk-lib/aws-lambda';
+import { SqsEventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
+import { IBucket } from 'aws-cdk-lib/aws-s3';
+import { Asset } from 'aws-cdk-lib/aws-s3-assets';
+import { Queue } from 'aws-cdk-lib/aws-sqs';
+import { Construct } from 'constructs';
+import * as micromatch from 'micromatch';
+import { NextjsBaseProps } from './NextjsBase';
+import type { NextjsBuild } from './NextjsBuild';
+import { getCommonFunctionProps } from './utils/common-lambda-props';
+import { listDirectory } from './utils/list-directories';
+
+// next.config.js `images.deviceSizes` and `images.imageSizes` defaults
+const DEFAULT_WIDTHS = [16, 32, 48, 64, 96, 128, 256, 384, 640, 750, 828, 1080, 1200, 1920, 2048, 3840];
+const DEFAULT_FORMATS = ['image/webp'];
+const DEFAULT_QUALITY = 75;
+// next.config.js `images.minimumCacheTTL` default
+const DEFAULT_MINIMUM_CACHE_TTL = 60;
+
+export interface NextjsImagePregenerationOptions {
+  /**
+   * Globs of images within `public` to pre-generate i.e. `images/products/**\/*.jpg`.
+   */
+  readonly globs: string[];
+  /**
+   * Widths to pre-generate.
+   * @default - `images.deviceSizes` and `images.imageSizes` in `next.config.js`
+   */
+  readonly widths?: number[];
+  /**
+   * Mime types of formats to pre-generate.
+   * @default - `images.formats` in `next.config.js`
+   */
+  readonly formats?: string[];
+  /**
+   * Quality of pre-generated images. Should match `quality` of `next/image`.
+   * @default 75
+   */
+  readonly quality?: number;
+  /**
+   * Override properties of worker function optimizing images.
+   */
+  readonly lambdaOptions?: FunctionOptions;
+}
+
+export interface NextjsImagePregenerationProps extends NextjsBaseProps, NextjsImagePregenerationOptions {
+  /**
+   * The `NextjsBuild` instance representing the built Nextjs application.
+   */
+  readonly nextBuild: NextjsBuild;
+  /**
+   * Bucket containing static assets, including source images.
+   */
+  readonly staticAssetsBucket: IBucket;
+  /**
+   * @see `NextjsProps.basePath`
+   */
+  readonly basePath?: string;
+  /**
+   * Bucket optimized images are uploaded to.
+   */
+  readonly imageCacheBucket: IBucket;
+  /**
+   * Key prefix optimized images are uploaded to.
+   */
+  readonly imageCacheKeyPrefix: string;
+  /**
+   * Layer providing sharp.
+   */
+  readonly sharpLayer: ILayerVersion;
+}
+
+export interface NextjsImagePregenerationCustomResourceProperties {
+  sourceBucketName: string;
+  sourceHash: string;
+  /**
+   * Location of `NextjsImagePregenerationManifest` so source keys don't
+   * count against CloudFormation template size.
+   */
+  manifestBucketName: string;
+  manifestKey: string;
+  queueUrl: string;
+  destinationBucketName: string;
+  destinationKeyPrefix: string;
+  /**
+   * Next.js build id, part of image cache key.
+   */
+  destinationSourceVersion?: string;
+  widths: number[];
+  formats: string[];
+  quality: number;
+  cacheControl: string;
+}
+
+export interface NextjsImagePregenerationManifest {
+  /**
+   * Keys of source images within static assets bucket.
+   */
+  sourceKeys: string[];
+}
+
+/**
+ * Optimizes images matching `globs` at deploy time and uploads them to the
+ * image cache so the first visitor to each image doesn't wait for sharp.
+ * Custom resource queues a message per image and returns, worker function
+ * optimizes them asynchronously. Custom resource's response data contains
+ * `QueuedImageCount` and `QueuedVariantCount`. Deployment doesn't wait for
+ * worker so images failing to optimize don't fail it. They're moved to
+ * `deadLetterQueue` which triggers `deadLetterQueueAlarm`.
+ */
+export class NextjsImagePregeneration extends Construct {
+  /**
+   * Lambda Function Provider for Custom Resource
+   */
+  function: LambdaFunction;
+  /**
+   * Custom Resource pre-generating images
+   */
+  customResource: CustomResource;
+  /**
+   * Queue of source images to optimize
+   */
+  queue: Queue;
+  /**
+   * Queue of source images which couldn't be optimized
+   */
+  deadLetterQueue: Queue;
+  /**
+   * Function optimizing source images from `queue`
+   */
+  workerFunction: LambdaFunction;
+  /**
+   * Alarm when images fail to optimize. Add actions to be notified.
+   */
+  deadLetterQueueAlarm: Alarm;
+  private props: NextjsImagePregenerationProps;
+
+  constructor(scope: Construct, id: string, props: NextjsImagePregenerationProps) {
+    super(scope, id);
+    this.props = props;
+    this.workerFunction = this.createWorkerFunction();
+    this.deadLetterQueue = this.createDeadLetterQueue();
+    this.queue = this.createQueue(this.deadLetterQueue);
+    this.deadLetterQueueAlarm = this.createDeadLetterQueueAlarm();
+    this.workerFunction.addEventSource(
+      new SqsEventSource(this.queue, {
+        // one image per invocation so each has whole timeout
+        batchSize: 1,
+        reportBatchItemFailures: true,
+      })
+    );
+    this.function = this.createFunction();
+    this.customResource = this.createCustomResource(this.function.functionArn);
+  }
+
+  /**
+   * Number of source images queued. Resolved at deploy time.
+   */
+  get queuedImageCount(): string {
+    return this.customResource.getAttString('QueuedImageCount');
+  }
+
+  /**
+   * Number of optimized images queued to be uploaded. Resolved at deploy time.
+   */
+  get queuedVariantCount(): string {
+    return this.customResource.getAttString('QueuedVariantCount');
+  }
+
+  private createWorkerFunction() {
+    const { lambdaOptions } = this.props;
+    const fn = new LambdaFunction(this, 'WorkerFn', {
+      ...getCommonFunctionProps(this),
+      code: Code.fromAsset(path.resolve(__dirname, '..', 'assets', 'lambdas', 'nextjs-image-pregeneration-worker')),
+      handler: 'index.handler',
+      description: 'Next.js Image Pre-generation Worker Function',
+      timeout: Duration.minutes(5),
+      ...lambdaOptions,
+      layers: [this.props.sharpLayer, ...(lambdaOptions?.layers || [])],
+    });
+    this.props.staticAssetsBucket.grantRead(fn);
+    this.props.imageCacheBucket.grantReadWrite(fn, `${this.props.imageCacheKeyPrefix}/*`);
+    return fn;
+  }
+
+  private createDeadLetterQueue() {
+    const queue = new Queue(this, 'DeadLetterQueue', {
+      retentionPeriod: Duration.days(14),
+    });
+    this.denyUnsecureTransport(queue);
+    return queue;
+  }
+
+  private createQueue(deadLetterQueue: Queue) {
+    const queue = new Queue(this, 'Queue', {
+      // AWS recommends 6 times function's timeout for event sources
+      visibilityTimeout: Duration.seconds(this.workerFunction.timeout!.toSeconds() * 6),
+      deadLetterQueue: {
+        queue: deadLetterQueue,
+        maxReceiveCount: 3,
+      },
+    });
+    this.denyUnsecureTransport(queue);
+    return queue;
+  }
+
+  private createDeadLetterQueueAlarm() {
+    return new Alarm(this, 'DeadLetterQueueDepthAlarm', {
+      metric: this.deadLetterQueue.metricApproximateNumberOfMessagesVisible({
+        statistic: 'Maximum',
+        period: Duration.minutes(1),
+      }),
+      threshold: 1,
+      evaluationPeriods: 1,
+      comparisonOperator: ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      treatMissingData: TreatMissingData.NOT_BREACHING,
+      alarmDescription: 'Next.js images failed to pre-generate',
+    });
+  }
+
+  /**
+   * @see {@link https://docs.aws.amazon.com/AWSSimpleQueueService/latest/SQSDeveloperGuide/sqs-least-privilege-policy.html}
+   */
+  private denyUnsecureTransport(queue: Queue) {
+    queue.addToResourcePolicy(
+      new PolicyStatement({
+        sid: 'DenyUnsecureTransport',
+        actions: ['sqs:*'],
+        effect: Effect.DENY,
+        principals: [new AnyPrincipal()],
+        resources: [queue.queueArn],
+        conditions: {
+          Bool: { 'aws:SecureTransport': 'false' },
+        },
+      })
+    );
+  }
+
+  private createFunction() {
+    const fn = new LambdaFunction(this, 'Fn', {
+      ...getCommonFunctionProps(this),
+      code: Code.fromAsset(path.resolve(__dirname, '..', 'assets', 'lambdas', 'nextjs-image-pregeneration')),
+      handler: 'index.handler',
+      description: 'Next.js Image Pre-generation Function',
+      timeout: Duration.minutes(5),
+    });
+    this.queue.grantSendMessages(fn);
+    return fn;
+  }
+
+  private createCustomResource(serviceToken: string) {
+    const imagesConfig = this.props.nextBuild.nextImagesConfig;
+    const sourceFiles = this.listSourceFiles();
+    const manifest = this.createManifestAsset({ sourceKeys: sourceFiles.map(({ key }) => key) });
+    manifest.grantRead(this.function);
+    const properties: NextjsImagePregenerationCustomResourceProperties = {
+      sourceBucketName: this.props.staticAssetsBucket.bucketName,
+      // re-run when source images change even if their keys don't
+      sourceHash: this.hashSourceFiles(sourceFiles.map(({ filePath }) => filePath)),
+      manifestBucketName: manifest.s3BucketName,
+      manifestKey: manifest.s3ObjectKey,
+      queueUrl: this.queue.queueUrl,
+      destinationBucketName: this.props.imageCacheBucket.bucketName,
+      destinationKeyPrefix: this.props.imageCacheKeyPrefix,
+      destinationSourceVersion: this.props.nextBuild.nextBuildId,
+      widths:
+        this.props.widths ??
+        [...(imagesConfig?.deviceSizes ?? []), ...(imagesConfig?.imageSizes ?? [])].sort((a, b) => a - b),
+      formats: this.props.formats ?? imagesConfig?.formats ?? DEFAULT_FORMATS,
+      quality: this.props.quality ?? DEFAULT_QUALITY,
+      // matches Next.js' image optimizer for images without upstream `Cache-Control`
+      cacheControl: `public, max-age=${imagesConfig?.minimumCacheTTL ?? DEFAULT_MINIMUM_CACHE_TTL}, must-revalidate`,
+    };
+    if (!properties.widths.length) {
+      properties.widths = DEFAULT_WIDTHS;
+    }
+    return new CustomResource(this, 'CustomResource', {
+      properties,
+      resourceType: 'Custom::NextjsImagePregeneration',
+      serviceToken,
+    });
+  }
+
+  private createManifestAsset(manifest: NextjsImagePregenerationManifest) {
+    const manifestDir = mkdtempSync(path.join(tmpdir(), 'nextjs-image-pregeneration-'));
+    const manifestPath = path.join(manifestDir, 'manifest.json');
+    writeFileSync(manifestPath, JSON.stringify(manifest));
+    const asset = new Asset(this, 'ManifestAsset', { path: manifestPath });
+    // new Asset() creates copy of manifest into cdk.out/. This cleans up tmp folder
+    rmSync(manifestDir, { recursive: true });
+    return asset;
+  }
+
+  /**
+   * Lists files in `nextStaticDir` matching `globs` along with their key in
+   * static assets bucket.
+   */
+  private listSourceFiles() {
+    const { nextStaticDir } = this.props.nextBuild;
+    const basePath = this.props.basePath?.replace(/^\//, '');
+    return listDirectory(nextStaticDir)
+      .map((filePath) => ({ filePath, relativePath: path.relative(nextStaticDir, filePath).split(path.sep).join('/') }))
+      .filter(({ relativePath }) => micromatch.isMatch(relativePath, this.props.globs))
+      .map(({ filePath, relativePath }) => ({
+        filePath,
+        key: basePath ? `${basePath}/${relativePath}` : relativePath,
+      }));
+  }
+
+  private hashSourceFiles(filePaths: string[]) {
+    const hash = createHash('sha256');
+    for (const filePath of filePaths) {
+      hash.update(readFileSync(filePath));
+    }
+    return hash.digest('hex');
+  }
+}
@@ -0,0 +1,89 @@
+import { CfnResource, Names } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { MAINTENANCE_KEY } from './constants';
+import { NextjsBaseProps } from './NextjsBase';
+
+export interface NextjsMaintenanceOptions {
+  /**
+   * Path of page in `public` served instead of server responses during
+   * maintenance, i.e. `/maintenance.html`.
+   * @default - built-in page with 503 status
+   */
+  readonly pagePath?: string;
+  /**
+   * Viewer IP addresses that bypass maintenance mode, i.e. office IPs.
+   */
+  readonly allowedIps?: string[];
+  /**
+   * Value of `nextjs-maintenance-bypass` cookie that bypasses maintenance
+   * mode. Cookie isn't checked if omitted.
+   */
+  readonly bypassCookieValue?: string;
+}
+
+export interface NextjsMaintenanceProps extends NextjsBaseProps, NextjsMaintenanceOptions {}
+
+/**
+ * CloudFront KeyValueStore holding maintenance mode flag read by server
+ * behaviors' CloudFront Function. Flip flag with `getToggleCommand` to turn
+ * maintenance mode on or off within seconds without redeploying.
+ */
+export class NextjsMaintenance extends Construct {
+  /**
+   * KeyValueStore holding `maintenance` key.
+   */
+  keyValueStore: CfnResource;
+  /**
+   * @see `NextjsMaintenanceOptions.pagePath`
+   */
+  readonly pagePath?: string;
+  /**
+   * @see `NextjsMaintenanceOptions.allowedIps`
+   */
+  readonly allowedIps: string[];
+  /**
+   * @see `NextjsMaintenanceOptions.bypassCookieValue`
+   */
+  readonly bypassCookieValue?: string;
+
+  constructor(scope: Construct, id: string, props: NextjsMaintenanceProps) {
+    super(scope, id);
+    this.pagePath = props.pagePath;
+    this.allowedIps = props.allowedIps ?? [];
+    this.bypassCookieValue = props.bypassCookieValue;
+    // CDK doesn't have a construct for KeyValueStore yet
+    this.keyValueStore = new CfnResource(this, 'KeyValueStore', {
+      type: 'AWS::CloudFront::KeyValueStore',
+      properties: {
+        Name: Names.uniqueResourceName(this, { maxLength: 64 }),
+        Comment: 'Next.js maintenance mode flag',
+      },
+    });
+  }
+
+  /**
+   * ARN of `keyValueStore`.
+   */
+  get keyValueStoreArn(): string {
+    return this.keyValueStore.getAtt('Arn').toString();
+  }
+
+  /**
+   * ID of `keyValueStore`. Used by CloudFront Function to read flag.
+   */
+  get keyValueStoreId(): string {
+    return this.keyValueStore.getAtt('Id').toString();
+  }
+
+  /**
+   * AWS CLI command turning maintenance mode on or off, i.e. to output with
+   * `CfnOutput` for ops. Sets flag to "on" or "off" rather than deleting it so
+   * running either command twice doesn't fail.
+   */
+  public getToggleCommand(enabled: boolean): string {
+    const arn = this.keyValueStoreArn;
+    const etag = `$(aws cloudfront-keyvaluestore describe-key-value-store --kvs-arn ${arn} --query ETag --output text)`;
+    const value = enabled ? 'on' : 'off';
+    return `aws cloudfront-keyvaluestore put-key --kvs-arn ${arn} --key ${MAINTENANCE_KEY} --value ${value} --if-match "${etag}"`;
+  }
+}
@@ -0,0 +1,104 @@
+import * as path from 'node:path';
+import { CustomResource, Duration } from 'aws-cdk-lib';
+import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { Code, Function as LambdaFunction, FunctionOptions } from 'aws-cdk-lib/aws-lambda';
+import { Secret } from 'aws-cdk-lib/aws-secretsmanager';
+import { Construct } from 'constructs';
+import { NextjsBaseProps } from './NextjsBase';
+import { getCommonFunctionProps } from './utils/common-lambda-props';
+
+export interface NextjsOriginVerifyOptions {
+  /**
+   * Change to rotate secret on next deployment i.e. to current date.
+   * CloudFormation updates secret and then CloudFront's origin headers, during
+   * which functions accept both values. Don't rotate secret outside of
+   * deployments as CloudFront would keep sending the old value.
+   *
+   * Scheduled rotation isn't supported on purpose: it would have to update
+   * the distribution's origin headers outside of CloudFormation, which drifts
+   * the stack and is reverted by the next deployment. Rotate on a schedule by
+   * deploying with a new `rotationId`, i.e. from CI.
+   */
+  readonly rotationId?: string;
+  /**
+   * Override rotation function properties.
+   */
+  readonly lambdaOptions?: FunctionOptions;
+}
+
+export interface NextjsOriginVerifyProps extends NextjsBaseProps, NextjsOriginVerifyOptions {}
+
+export interface NextjsOriginVerifyCustomResourceProperties {
+  secretArn: string;
+  rotationId: string;
+}
+
+/**
+ * Secret CloudFront sends to server, image and revalidation functions in
+ * `x-origin-verify` header. Functions reject requests without it so their
+ * public function URLs can't be called directly, bypassing CloudFront, WAF and
+ * caching. Header value is only set by CloudFormation through `headerValue`
+ * so the distribution doesn't drift.
+ */
+export class NextjsOriginVerify extends Construct {
+  /**
+   * Secret sent in `x-origin-verify` header.
+   */
+  secret: Secret;
+  /**
+   * Lambda Function Provider for Custom Resource providing and rotating
+   * header value.
+   */
+  rotationFunction: LambdaFunction;
+  /**
+   * Custom Resource providing and rotating header value.
+   */
+  customResource: CustomResource;
+  private props: NextjsOriginVerifyProps;
+
+  constructor(scope: Construct, id: string, props: NextjsOriginVerifyProps) {
+    super(scope, id);
+    this.props = props;
+    this.secret = new Secret(this, 'Secret', {
+      description: 'Next.js origin verify header value',
+      generateSecretString: { passwordLength: 32, excludePunctuation: true },
+    });
+    this.rotationFunction = this.createRotationFunction();
+    this.customResource = this.createCustomResource(this.rotationFunction.functionArn);
+  }
+
+  /**
+   * Value of `x-origin-verify` header. Resolved at deploy time and hidden
+   * from CloudFormation outputs and describe calls.
+   */
+  get headerValue(): string {
+    return this.customResource.getAttString('Value');
+  }
+
+  private createRotationFunction() {
+    const fn = new LambdaFunction(this, 'RotationFn', {
+      ...getCommonFunctionProps(this),
+      code: Code.fromAsset(path.resolve(__dirname, '..', 'assets', 'lambdas', 'nextjs-origin-verify-rotation')),
+      handler: 'index.handler',
+      description: 'Next.js Origin Verify Secret Rotation',
+      timeout: Duration.seconds(30),
+      ...this.props.lambdaOptions,
+    });
+    this.secret.grantRead(fn);
+    this.secret.grantWrite(fn);
+    fn.addToRolePolicy(new PolicyStatement({ actions: ['secretsmanager:GetRandomPassword'], resources: ['*'] }));
+    return fn;
+  }
+
+  private createCustomResource(serviceToken: string) {
+    const properties: NextjsOriginVerifyCustomResourceProperties = {
+      secretArn: this.secret.secretArn,
+      rotationId: this.props.rotationId ?? '',
+    };
+    return new CustomResource(this, 'CustomResource', {
+      properties,
+      resourceType: 'Custom::NextjsOriginVerify',
+      serviceToken,
+    });
+  }
+}
@@ -0,0 +1,258 @@
+import { App, Duration, Stack } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { TableV2 } from 'aws-cdk-lib/aws-dynamodb';
+import { Schedule } from 'aws-cdk-lib/aws-events';
+import { Bucket } from 'aws-cdk-lib/aws-s3';
+import { Secret } from 'aws-cdk-lib/aws-secretsmanager';
+import { Queue } from 'aws-cdk-lib/aws-sqs';
+import { NextjsRevalidation, NextjsRevalidationProps } from './NextjsRevalidation';
+import { NextjsServer } from './NextjsServer';
+import { createNextjsBuild, FUNCTION_CODE, useNextjsApps } from './test-utils';
+
+describe('NextjsRevalidation', () => {
+  const createNextjsApp = useNextjsApps();
+
+  function createRevalidation(
+    props: Partial<NextjsRevalidationProps> | ((stack: Stack) => Partial<NextjsRevalidationProps>) = {}
+  ) {
+    const nextjsPath = createNextjsApp({
+      '.open-next/server-function/index.mjs': FUNCTION_CODE,
+      '.open-next/revalidation-function/index.mjs': FUNCTION_CODE,
+    });
+    const stack = new Stack(new App(), 'Stack', { env: { region: 'us-east-1' } });
+    const nextBuild = createNextjsBuild(stack, nextjsPath);
+    const serverFunction = new NextjsServer(stack, 'Server', {
+      nextjsPath,
+      nextBuild,
+      staticAssetBucket: new Bucket(stack, 'Bucket'),
+    });
+    new NextjsRevalidation(stack, 'Revalidation', {
+      nextjsPath,
+      nextBuild,
+      serverFunction,
+      ...(typeof props === 'function' ? props(stack) : props),
+    });
+    return Template.fromStack(stack);
+  }
+
+  test('queue function should be wrapped to report failed messages', () => {
+    const template = createRevalidation();
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Description: 'Next.js Queue Revalidation Function',
+      Handler: 'nextjs-revalidation-queue.handler',
+      Environment: { Variables: Match.objectLike({ REVALIDATION_QUEUE_HANDLER: 'index.handler' }) },
+    });
+    template.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+      FunctionName: { Ref: Match.stringLikeRegexp('^RevalidationQueueFn') },
+      FunctionResponseTypes: ['ReportBatchItemFailures'],
+      MaximumBatchingWindowInSeconds: Match.absent(),
+    });
+  });
+
+  describe('queue', () => {
+    test('should move failed messages to FIFO dead-letter queue', () => {
+      const template = createRevalidation();
+      template.hasResourceProperties('AWS::SQS::Queue', {
+        FifoQueue: true,
+        ReceiveMessageWaitTimeSeconds: 20,
+        RedrivePolicy: {
+          deadLetterTargetArn: { 'Fn::GetAtt': [Match.stringLikeRegexp('^RevalidationDeadLetterQueue'), 'Arn'] },
+          maxReceiveCount: 3,
+        },
+      });
+      template.hasResourceProperties('AWS::SQS::Queue', { FifoQueue: true, MessageRetentionPeriod: 1209600 });
+      template.hasResourceProperties('AWS::Lambda::EventSourceMapping', { BatchSize: 5 });
+    });
+
+    test('should alarm on dead-letter queue depth and oldest message age', () => {
+      const template = createRevalidation();
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        MetricName: 'ApproximateNumberOfMessagesVisible',
+        Dimensions: [
+          {
+            Name: 'QueueName',
+            Value: Match.objectLike({
+              'Fn::GetAtt': [Match.stringLikeRegexp('^RevalidationDeadLetterQueue'), 'QueueName'],
+            }),
+          },
+        ],
+        Statistic: 'Maximum',
+        Threshold: 1,
+        ComparisonOperator: 'GreaterThanOrEqualToThreshold',
+        TreatMissingData: 'notBreaching',
+      });
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        MetricName: 'ApproximateAgeOfOldestMessage',
+        Dimensions: [
+          {
+            Name: 'QueueName',
+            Value: Match.objectLike({ 'Fn::GetAtt': [Match.stringLikeRegexp('^RevalidationQueue'), 'QueueName'] }),
+          },
+        ],
+        Threshold: 300,
+        ComparisonOperator: 'GreaterThanThreshold',
+      });
+    });
+
+    test('should apply queue options', () => {
+      const template = createRevalidation({
+        revalidationQueue: {
+          maxReceiveCount: 5,
+          deadLetterQueueRetentionPeriod: Duration.days(4),
+          batchSize: 10,
+          deadLetterQueueDepthThreshold: 3,
+          oldestMessageAgeThreshold: Duration.minutes(10),
+        },
+      });
+      template.hasResourceProperties('AWS::SQS::Queue', { RedrivePolicy: Match.objectLike({ maxReceiveCount: 5 }) });
+      template.hasResourceProperties('AWS::SQS::Queue', { MessageRetentionPeriod: 345600 });
+      template.hasResourceProperties('AWS::Lambda::EventSourceMapping', { BatchSize: 10 });
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        MetricName: 'ApproximateNumberOfMessagesVisible',
+        Threshold: 3,
+      });
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        MetricName: 'ApproximateAgeOfOldestMessage',
+        Threshold: 600,
+      });
+    });
+  });
+
+  describe('existing resources', () => {
+    const queueArn = 'arn:aws:sqs:us-east-1:123456789012:revalidation.fifo';
+    const tableArn = 'arn:aws:dynamodb:us-east-1:123456789012:table/revalidation';
+
+    test('should use existing FIFO queue and table instead of creating them', () => {
+      const template = createRevalidation((stack) => ({
+        queue: Queue.fromQueueAttributes(stack, 'ExistingQueue', { queueArn, fifo: true }),
+        table: TableV2.fromTableArn(stack, 'ExistingTable', tableArn),
+      }));
+      template.resourceCountIs('AWS::SQS::Queue', 0);
+      template.resourceCountIs('AWS::DynamoDB::GlobalTable', 0);
+      template.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+        FunctionName: { Ref: Match.stringLikeRegexp('^RevalidationQueueFn') },
+        EventSourceArn: queueArn,
+      });
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Description: 'Next.js Server Handler',
+        Environment: {
+          Variables: Match.objectLike({
+            CACHE_DYNAMO_TABLE: 'revalidation',
+            REVALIDATION_QUEUE_URL: { 'Fn::Join': ['', Match.arrayWith(['/123456789012/revalidation.fifo'])] },
+          }),
+        },
+      });
+      // only alarm on queue age as dead-letter queue is managed with queue
+      template.resourceCountIs('AWS::CloudWatch::Alarm', 1);
+    });
+
+    test('should grant server access to existing queue and table', () => {
+      const template = createRevalidation((stack) => ({
+        queue: Queue.fromQueueAttributes(stack, 'ExistingQueue', { queueArn, fifo: true }),
+        table: TableV2.fromTableArn(stack, 'ExistingTable', tableArn),
+      }));
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        Roles: [{ Ref: Match.stringLikeRegexp('^ServerFnServiceRole') }],
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({ Action: Match.arrayWith(['sqs:SendMessage']), Resource: queueArn }),
+            Match.objectLike({ Action: Match.arrayWith(['dynamodb:PutItem']), Resource: tableArn }),
+          ]),
+        },
+      });
+    });
+
+    test('should reject non-FIFO queue', () => {
+      expect(() =>
+        createRevalidation((stack) => ({
+          queue: Queue.fromQueueArn(stack, 'ExistingQueue', 'arn:aws:sqs:us-east-1:123456789012:revalidation'),
+        }))
+      ).toThrow('Revalidation "queue" must be a FIFO queue.');
+    });
+  });
+
+  describe('endpoint', () => {
+    test('should expose IAM authenticated function URL without secret', () => {
+      const template = createRevalidation({ revalidationEndpoint: {} });
+      template.hasResourceProperties('AWS::Lambda::Url', {
+        AuthType: 'AWS_IAM',
+        TargetFunctionArn: { 'Fn::GetAtt': [Match.stringLikeRegexp('^RevalidationEndpointFn'), 'Arn'] },
+      });
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Description: 'Next.js On-demand Revalidation Endpoint',
+        Environment: { Variables: Match.objectLike({ SECRET_ARN: Match.absent() }) },
+      });
+    });
+
+    test('should read secret and skip function URL when served through CloudFront', () => {
+      const template = createRevalidation((stack) => ({
+        revalidationEndpoint: { secret: new Secret(stack, 'Secret') },
+      }));
+      template.resourceCountIs('AWS::Lambda::Url', 0);
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Description: 'Next.js On-demand Revalidation Endpoint',
+        Environment: { Variables: Match.objectLike({ SECRET_ARN: { Ref: Match.stringLikeRegexp('^Secret') } }) },
+      });
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        Roles: [{ Ref: Match.stringLikeRegexp('^RevalidationEndpointFnServiceRole') }],
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: ['secretsmanager:GetSecretValue', 'secretsmanager:DescribeSecret'],
+              Resource: { Ref: Match.stringLikeRegexp('^Secret') },
+            }),
+          ]),
+        },
+      });
+    });
+  });
+
+  describe('scheduled revalidations', () => {
+    test('should enqueue paths and tags on each schedule', () => {
+      const template = createRevalidation({
+        scheduledRevalidations: [
+          { schedule: Schedule.rate(Duration.hours(1)), paths: ['/blog'] },
+          { schedule: Schedule.cron({ minute: '0', hour: '6' }), tags: ['feed'], host: 'example.com' },
+        ],
+      });
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Description: 'Next.js Scheduled Revalidation',
+        Environment: {
+          Variables: Match.objectLike({
+            REVALIDATION_QUEUE_URL: { Ref: Match.stringLikeRegexp('^RevalidationQueue') },
+            CACHE_DYNAMO_TABLE: { Ref: Match.stringLikeRegexp('^RevalidationTable') },
+          }),
+        },
+      });
+      const scheduleFnArn = { 'Fn::GetAtt': [Match.stringLikeRegexp('^RevalidationScheduleFn'), 'Arn'] };
+      template.hasResourceProperties('AWS::Events::Rule', {
+        ScheduleExpression: 'rate(1 hour)',
+        Targets: [
+          Match.objectLike({
+            Arn: scheduleFnArn,
+            Input: JSON.stringify({ paths: ['/blog'] }),
+            RetryPolicy: { MaximumRetryAttempts: 2 },
+          }),
+        ],
+      });
+      template.hasResourceProperties('AWS::Events::Rule', {
+        ScheduleExpression: 'cron(0 6 * * ? *)',
+        Targets: [
+          Match.objectLike({ Arn: scheduleFnArn, Input: JSON.stringify({ tags: ['feed'], host: 'example.com' }) }),
+        ],
+      });
+      template.resourceCountIs('AWS::Lambda::Permission', 2);
+    });
+
+    test('should require paths or tags', () => {
+      expect(() =>
+        createRevalidation({
+          scheduledRevalidations: [
+            { schedule: Schedule.rate(Duration.hours(1)), paths: ['/blog'] },
+            { schedule: Schedule.rate(Duration.hours(1)), paths: [], tags: [] },
+          ],
+        })
+      ).toThrow('Scheduled revalidation 1 must have "paths" or "tags".');
+    });
+  });
+});
@@ -1,17 +1,124 @@
 import * as fs from 'fs';
+import * as path from 'path';
 import { CustomResource, Duration, RemovalPolicy, Stack } from 'aws-cdk-lib';
-import { AttributeType, Billing, TableV2 as Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Alarm, ComparisonOperator, TreatMissingData } from 'aws-cdk-lib/aws-cloudwatch';
+import { AttributeType, Billing, ITable, TableV2 as Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Rule, RuleTargetInput, Schedule } from 'aws-cdk-lib/aws-events';
+import { LambdaFunction as LambdaFunctionTarget } from 'aws-cdk-lib/aws-events-targets';
 import { AnyPrincipal, Effect, PolicyStatement } from 'aws-cdk-lib/aws-iam';
-import { Code, Function as LambdaFunction, FunctionOptions } from 'aws-cdk-lib/aws-lambda';
+import {
+  Code,
+  Function as LambdaFunction,
+  FunctionOptions,
+  FunctionUrl,
+  FunctionUrlAuthType,
+} from 'aws-cdk-lib/aws-lambda';
 import { SqsEventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
 import { RetentionDays } from 'aws-cdk-lib/aws-logs';
-import { Queue } from 'aws-cdk-lib/aws-sqs';
+import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
+import { IQueue, Queue } from 'aws-cdk-lib/aws-sqs';
 import { Provider } from 'aws-cdk-lib/custom-resources';
 import { Construct } from 'constructs';
 import { NextjsBaseProps } from './NextjsBase';
 import { NextjsBuild } from './NextjsBuild';
 import { NextjsServer } from './NextjsServer';
 import { getCommonFunctionProps } from './utils/common-lambda-props';
+import { createWrappedCodeDir } from './utils/create-wrapped-code-dir';
+import {
+  getOriginVerifyEnvironment,
+  getOriginVerifyFilePath,
+  ORIGIN_VERIFY_FILE_NAME,
+  ORIGIN_VERIFY_HANDLER,
+} from './utils/origin-verify';
+import {
+  getRevalidationQueueFilePath,
+  REVALIDATION_QUEUE_FILE_NAME,
+  REVALIDATION_QUEUE_HANDLER,
+} from './utils/revalidation-queue';
+
+/**
+ * Settings of the revalidation queue. There's no max batching window as SQS
+ * event sources don't support it for FIFO queues.
+ */
+export interface NextjsRevalidationQueueOptions {
+  /**
+   * Number of times a message is received before it's moved to the dead-letter queue.
+   * @default 3
+   */
+  readonly maxReceiveCount?: number;
+  /**
+   * How long messages are kept in the dead-letter queue.
+   * @default Duration.days(14)
+   */
+  readonly deadLetterQueueRetentionPeriod?: Duration;
+  /**
+   * Max number of messages sent to the revalidation function per invocation.
+   * @default 5
+   */
+  readonly batchSize?: number;
+  /**
+   * Alarm when the dead-letter queue has at least this many messages.
+   * @default 1
+   */
+  readonly deadLetterQueueDepthThreshold?: number;
+  /**
+   * Alarm when the oldest message in the queue is older than this.
+   * @default Duration.minutes(5)
+   */
+  readonly oldestMessageAgeThreshold?: Duration;
+}
+
+/**
+ * When `Nextjs` provisions `NextjsRevalidation`.
+ */
+export enum NextjsRevalidationMode {
+  /**
+   * Provision if app uses ISR or cache tags, or if revalidation options are set.
+   */
+  AUTO = 'auto',
+  /**
+   * Always provision i.e. if `revalidatePath` or `revalidateTag` are only called at runtime.
+   */
+  ALWAYS = 'always',
+  /**
+   * Never provision.
+   */
+  NEVER = 'never',
+}
+
+export interface NextjsRevalidationEndpointOptions {
+  /**
+   * Secret whose value callers must send in the `x-revalidation-secret`
+   * header. Endpoint is routed through CloudFront at `path`. If omitted,
+   * endpoint is only reachable through its own function URL with IAM auth.
+   */
+  readonly secret?: ISecret;
+  /**
+   * CloudFront path pattern routed to endpoint. Only used with `secret`.
+   * @default "_revalidate"
+   */
+  readonly path?: string;
+}
+
+export interface NextjsScheduledRevalidation {
+  /**
+   * When to revalidate i.e. `Schedule.rate(Duration.hours(1))` or `Schedule.cron({ minute: '0' })`.
+   */
+  readonly schedule: Schedule;
+  /**
+   * Paths to revalidate i.e. `/blog`
+   */
+  readonly paths?: string[];
+  /**
+   * Tags to revalidate. Paths tagged with them are revalidated as well.
+   */
+  readonly tags?: string[];
+  /**
+   * Host revalidated paths are requested from.
+   * @default - custom domain or CloudFront domain if used through `Nextjs`
+   */
+  readonly host?: string;
+}
 
 export interface NextjsRevalidationProps extends NextjsBaseProps {
   /**
@@ -28,6 +135,43 @@ export interface NextjsRevalidationProps extends NextjsBaseProps {
    * The main NextJS server handler lambda function.
    */
   readonly serverFunction: NextjsServer;
+
+  /**
+   * Dead-letter queue, batching and alarm settings of the revalidation queue.
+   */
+  readonly revalidationQueue?: NextjsRevalidationQueueOptions;
+
+  /**
+   * Existing FIFO queue to use instead of creating one. Dead-letter queue
+   * settings are ignored as they're managed with the queue.
+   */
+  readonly queue?: IQueue;
+
+  /**
+   * Existing table to use instead of creating one. Must have the same keys
+   * and `revalidate` index as the table created by this construct.
+   */
+  readonly table?: ITable;
+
+  /**
+   * Expose endpoint accepting `POST` with JSON body `{ "paths": [], "tags": [] }`
+   * to revalidate paths and tags on demand, i.e. from a CMS. Disabled if omitted.
+   */
+  readonly revalidationEndpoint?: NextjsRevalidationEndpointOptions;
+
+  /**
+   * Revalidate paths and tags on a schedule i.e. pages depending on external
+   * feeds without webhooks.
+   */
+  readonly scheduledRevalidations?: NextjsScheduledRevalidation[];
+
+  /**
+   * Secret CloudFront sends in `x-origin-verify` header. Endpoint served
+   * through CloudFront, i.e. with `revalidationEndpoint.secret`, rejects
+   * requests without it.
+   * @see `NextjsProps.originVerify`
+   */
+  readonly originVerifySecret?: ISecret;
 }
 
 /**
@@ -38,20 +182,60 @@ export interface NextjsRevalidationProps extends NextjsBaseProps {
  *
  */
 export class NextjsRevalidation extends Construct {
-  queue: Queue;
-  table: Table;
+  queue: IQueue;
+  /**
+   * Receives messages the revalidation function failed to process
+   * `maxReceiveCount` times. Only defined if `queue` isn't provided.
+   */
+  deadLetterQueue?: Queue;
+  /**
+   * Alarms on dead-letter queue depth and oldest message age. Add actions to
+   * be notified of revalidation failures.
+   */
+  alarms: Alarm[];
+  table: ITable;
   queueFunction: LambdaFunction;
   tableFunction: LambdaFunction | undefined;
+  /**
+   * Handles on-demand revalidation requests. Only defined if
+   * `revalidationEndpoint` is set.
+   */
+  endpointFunction?: LambdaFunction;
+  /**
+   * IAM authenticated function URL of `endpointFunction`. Only defined if
+   * `revalidationEndpoint` is set without `secret`.
+   */
+  endpointUrl?: FunctionUrl;
+  /**
+   * Enqueues paths of `scheduledRevalidations`. Only defined if
+   * `scheduledRevalidations` is set.
+   */
+  scheduleFunction?: LambdaFunction;
+  /**
+   * EventBridge rules of `scheduledRevalidations`.
+   */
+  scheduleRules: Rule[] = [];
   private props: NextjsRevalidationProps;
 
   constructor(scope: Construct, id: string, props: NextjsRevalidationProps) {
     super(scope, id);
     this.props = props;
 
-    this.queue = this.createQueue();
+    if (props.queue) {
+      if (!props.queue.fifo) {
+        throw new Error('Revalidation "queue" must be a FIFO queue.');
+      }
+      this.queue = props.queue;
+      // Allow server to send messages to the queue
+      this.queue.grantSendMessages(this.props.serverFunction.lambdaFunction);
+    } else {
+      this.deadLetterQueue = this.createDeadLetterQueue();
+      this.queue = this.createQueue(this.deadLetterQueue);
+    }
     this.queueFunction = this.createQueueFunction();
+    this.alarms = this.createAlarms();
 
-    this.table = this.createRevalidationTable();
+    this.table = props.table ?? this.createRevalidationTable();
     this.tableFunction = this.createRevalidationInsertFunction(this.table);
 
     this.props.serverFunction.lambdaFunction.addEnvironment('CACHE_DYNAMO_TABLE', this.table.tableName);
@@ -63,14 +247,49 @@ export class NextjsRevalidation extends Construct {
     this.props.serverFunction.lambdaFunction // allow server fn to send messages to queue
       ?.addEnvironment('REVALIDATION_QUEUE_URL', this.queue.queueUrl);
     props.serverFunction.lambdaFunction?.addEnvironment('REVALIDATION_QUEUE_REGION', Stack.of(this).region);
+
+    if (props.revalidationEndpoint) {
+      this.endpointFunction = this.createEndpointFunction(props.revalidationEndpoint);
+      if (!props.revalidationEndpoint.secret) {
+        this.endpointUrl = this.endpointFunction.addFunctionUrl({ authType: FunctionUrlAuthType.AWS_IAM });
+      }
+    }
+
+    if (props.scheduledRevalidations?.length) {
+      this.scheduleFunction = this.createScheduleFunction();
+      this.scheduleRules = this.createScheduleRules(this.scheduleFunction, props.scheduledRevalidations);
+    }
+  }
+
+  private createDeadLetterQueue(): Queue {
+    const queue = new Queue(this, 'DeadLetterQueue', {
+      // dead-letter queue of FIFO queue must be FIFO
+      fifo: true,
+      retentionPeriod: this.props.revalidationQueue?.deadLetterQueueRetentionPeriod ?? Duration.days(14),
+    });
+    this.denyUnsecureTransport(queue);
+    return queue;
   }
 
-  private createQueue(): Queue {
+  private createQueue(deadLetterQueue: Queue): Queue {
     const queue = new Queue(this, 'Queue', {
       fifo: true,
       receiveMessageWaitTime: Duration.seconds(20),
+      deadLetterQueue: {
+        queue: deadLetterQueue,
+        maxReceiveCount: this.props.revalidationQueue?.maxReceiveCount ?? 3,
+      },
     });
-    // https://docs.aws.amazon.com/AWSSimpleQueueService/latest/SQSDeveloperGuide/sqs-least-privilege-policy.html
+    this.denyUnsecureTransport(queue);
+    // Allow server to send messages to the queue
+    queue.grantSendMessages(this.props.serverFunction.lambdaFunction);
+    return queue;
+  }
+
+  /**
+   * @see {@link https://docs.aws.amazon.com/AWSSimpleQueueService/latest/SQSDeveloperGuide/sqs-least-privilege-policy.html}
+   */
+  private denyUnsecureTransport(queue: Queue) {
     queue.addToResourcePolicy(
       new PolicyStatement({
         sid: 'DenyUnsecureTransport',
@@ -83,26 +302,149 @@ export class NextjsRevalidation extends Construct {
         },
       })
     );
-    // Allow server to send messages to the queue
-    queue.grantSendMessages(this.props.serverFunction.lambdaFunction);
-    return queue;
   }
 
   private createQueueFunction(): LambdaFunction {
     const commonFnProps = getCommonFunctionProps(this);
+    const codeDir = createWrappedCodeDir(this.props.nextBuild.nextRevalidateFnDir, {
+      [REVALIDATION_QUEUE_FILE_NAME]: getRevalidationQueueFilePath(),
+    });
     const fn = new LambdaFunction(this, 'QueueFn', {
       ...commonFnProps,
       // open-next revalidation-function
       // see: https://github.com/serverless-stack/open-next/blob/274d446ed7e940cfbe7ce05a21108f4c854ee37a/README.md?plain=1#L65
-      code: Code.fromAsset(this.props.nextBuild.nextRevalidateFnDir),
-      handler: 'index.handler',
+      // wrapped to report failed messages
+      code: Code.fromAsset(codeDir),
+      handler: REVALIDATION_QUEUE_HANDLER,
       description: 'Next.js Queue Revalidation Function',
       timeout: Duration.seconds(30),
+      ...this.props.lambdaOptions,
+      environment: {
+        REVALIDATION_QUEUE_HANDLER:
+          this.props.nextBuild.openNextOutput?.additionalProps?.revalidationFunction?.handler ?? 'index.handler',
+        ...this.props.lambdaOptions?.environment,
+      },
+    });
+    // Code.fromAsset() creates copy of code into cdk.out/. This cleans up tmp folder
+    fs.rmSync(codeDir, { recursive: true });
+    fn.addEventSource(
+      new SqsEventSource(this.queue, {
+        batchSize: this.props.revalidationQueue?.batchSize ?? 5,
+        // only failed messages are retried instead of whole batch
+        reportBatchItemFailures: true,
+      })
+    );
+    return fn;
+  }
+
+  private createEndpointFunction({ secret }: NextjsRevalidationEndpointOptions): LambdaFunction {
+    const buildId = this.props.nextBuild.nextBuildId;
+    const endpointDir = path.resolve(__dirname, '..', 'assets', 'lambdas', 'nextjs-revalidation-endpoint');
+    // only served through CloudFront with secret
+    const originVerifySecret = secret ? this.props.originVerifySecret : undefined;
+    const codeDir = originVerifySecret
+      ? createWrappedCodeDir(endpointDir, { [ORIGIN_VERIFY_FILE_NAME]: getOriginVerifyFilePath() })
+      : undefined;
+    const fn = new LambdaFunction(this, 'EndpointFn', {
+      ...getCommonFunctionProps(this),
+      code: Code.fromAsset(codeDir ?? endpointDir),
+      handler: originVerifySecret ? ORIGIN_VERIFY_HANDLER : 'index.handler',
+      description: 'Next.js On-demand Revalidation Endpoint',
+      timeout: Duration.seconds(30),
+      ...this.props.lambdaOptions,
+      environment: {
+        REVALIDATION_QUEUE_URL: this.queue.queueUrl,
+        CACHE_DYNAMO_TABLE: this.table.tableName,
+        ...(buildId ? { NEXT_BUILD_ID: buildId } : {}),
+        ...(secret ? { SECRET_ARN: secret.secretArn } : {}),
+        ...(originVerifySecret
+          ? getOriginVerifyEnvironment({ secret: originVerifySecret, handler: 'index.handler' })
+          : {}),
+        ...this.props.lambdaOptions?.environment,
+      },
+    });
+    // Code.fromAsset() creates copy of code into cdk.out/. This cleans up tmp folder
+    if (codeDir) fs.rmSync(codeDir, { recursive: true });
+    this.queue.grantSendMessages(fn);
+    this.table.grantReadWriteData(fn);
+    secret?.grantRead(fn);
+    originVerifySecret?.grantRead(fn);
+    return fn;
+  }
+
+  private createScheduleFunction(): LambdaFunction {
+    const buildId = this.props.nextBuild.nextBuildId;
+    const fn = new LambdaFunction(this, 'ScheduleFn', {
+      ...getCommonFunctionProps(this),
+      code: Code.fromAsset(path.resolve(__dirname, '..', 'assets', 'lambdas', 'nextjs-revalidation-schedule')),
+      handler: 'index.handler',
+      description: 'Next.js Scheduled Revalidation',
+      timeout: Duration.seconds(30),
+      ...this.props.lambdaOptions,
+      environment: {
+        REVALIDATION_QUEUE_URL: this.queue.queueUrl,
+        CACHE_DYNAMO_TABLE: this.table.tableName,
+        ...(buildId ? { NEXT_BUILD_ID: buildId } : {}),
+        ...this.props.lambdaOptions?.environment,
+      },
     });
-    fn.addEventSource(new SqsEventSource(this.queue, { batchSize: 5 }));
+    this.queue.grantSendMessages(fn);
+    this.table.grantReadWriteData(fn);
     return fn;
   }
 
+  private createScheduleRules(fn: LambdaFunction, scheduledRevalidations: NextjsScheduledRevalidation[]): Rule[] {
+    return scheduledRevalidations.map(({ schedule, paths, tags, host }, i) => {
+      if (!paths?.length && !tags?.length) {
+        throw new Error(`Scheduled revalidation ${i} must have "paths" or "tags".`);
+      }
+      return new Rule(this, `ScheduleRule${i}`, {
+        schedule,
+        description: `Next.js Scheduled Revalidation ${schedule.expressionString}`,
+        targets: [
+          new LambdaFunctionTarget(fn, {
+            event: RuleTargetInput.fromObject({ paths, tags, host }),
+            retryAttempts: 2,
+          }),
+        ],
+      });
+    });
+  }
+
+  private createAlarms(): Alarm[] {
+    const { revalidationQueue } = this.props;
+    const alarms: Alarm[] = [];
+    if (this.deadLetterQueue) {
+      alarms.push(
+        new Alarm(this, 'DeadLetterQueueDepthAlarm', {
+          metric: this.deadLetterQueue.metricApproximateNumberOfMessagesVisible({
+            statistic: 'Maximum',
+            period: Duration.minutes(1),
+          }),
+          threshold: revalidationQueue?.deadLetterQueueDepthThreshold ?? 1,
+          evaluationPeriods: 1,
+          comparisonOperator: ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+          treatMissingData: TreatMissingData.NOT_BREACHING,
+          alarmDescription: 'Next.js revalidation messages failed to process',
+        })
+      );
+    }
+    alarms.push(
+      new Alarm(this, 'OldestMessageAgeAlarm', {
+        metric: this.queue.metricApproximateAgeOfOldestMessage({
+          statistic: 'Maximum',
+          period: Duration.minutes(1),
+        }),
+        threshold: (revalidationQueue?.oldestMessageAgeThreshold ?? Duration.minutes(5)).toSeconds(),
+        evaluationPeriods: 1,
+        comparisonOperator: ComparisonOperator.GREATER_THAN_THRESHOLD,
+        treatMissingData: TreatMissingData.NOT_BREACHING,
+        alarmDescription: 'Next.js revalidation queue is backed up',
+      })
+    );
+    return alarms;
+  }
+
   private createRevalidationTable() {
     return new Table(this, 'Table', {
       partitionKey: { name: 'tag', type: AttributeType.STRING },
@@ -126,7 +468,7 @@ export class NextjsRevalidation extends Construct {
    * @param revalidationTable table to grant function access to
    * @returns the revalidation insert provider function
    */
-  private createRevalidationInsertFunction(revalidationTable: Table) {
+  private createRevalidationInsertFunction(revalidationTable: ITable) {
     const dynamodbProviderPath = this.props.nextBuild.nextRevalidateDynamoDBProviderFnDir;
 
     // note the function may not exist - it only exists if there are cache tags values defined in Next.js build meta files to be inserted
@@ -138,11 +480,14 @@ export class NextjsRevalidation extends Construct {
         // open-next revalidation-function
         // see: https://github.com/serverless-stack/open-next/blob/274d446ed7e940cfbe7ce05a21108f4c854ee37a/README.md?plain=1#L65
         code: Code.fromAsset(this.props.nextBuild.nextRevalidateDynamoDBProviderFnDir),
-        handler: 'index.handler',
+        handler:
+          this.props.nextBuild.openNextOutput?.additionalProps?.initializationFunction?.handler ?? 'index.handler',
         description: 'Next.js Revalidation DynamoDB Provider',
         timeout: Duration.minutes(1),
+        ...this.props.lambdaOptions,
         environment: {
           CACHE_DYNAMO_TABLE: revalidationTable.tableName,
+          ...this.props.lambdaOptions?.environment,
         },
       });
 
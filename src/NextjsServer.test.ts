@@ -0,0 +1,221 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { Schedule } from 'aws-cdk-lib/aws-applicationautoscaling';
+import { LambdaDeploymentConfig } from 'aws-cdk-lib/aws-codedeploy';
+import { Bucket } from 'aws-cdk-lib/aws-s3';
+import { NextjsServer, NextjsServerPackaging, NextjsServerProps } from './NextjsServer';
+import { createNextjsBuild, FUNCTION_CODE, useNextjsApps } from './test-utils';
+
+describe('NextjsServer', () => {
+  const createNextjsApp = useNextjsApps();
+
+  function createServer(props: Partial<NextjsServerProps> = {}, code = FUNCTION_CODE) {
+    const nextjsPath = createNextjsApp({ '.open-next/server-function/index.mjs': code });
+    const stack = new Stack(new App(), 'Stack', { env: { region: 'us-east-1' } });
+    const staticAssetBucket = new Bucket(stack, 'Bucket');
+    const nextBuild = createNextjsBuild(stack, nextjsPath);
+    new NextjsServer(stack, 'Server', {
+      nextjsPath,
+      nextBuild,
+      staticAssetBucket,
+      environment: { BUCKET_ARN: staticAssetBucket.bucketArn },
+      ...props,
+    });
+    return Template.fromStack(stack);
+  }
+
+  function getSubstitutionConfig(template: Template) {
+    const [customResource] = Object.values(template.findResources('Custom::NextjsBucketDeployment'));
+    return customResource.Properties.substitutionConfig;
+  }
+
+  test('streaming should set streaming wrapper environment and keep substitution', () => {
+    const buffered = createServer();
+    const streaming = createServer({ streaming: true });
+    streaming.hasResourceProperties('AWS::Lambda::Function', {
+      Description: 'Next.js Server Handler',
+      Environment: {
+        Variables: Match.objectLike({
+          OPEN_NEXT_FORCE_NON_EMPTY_RESPONSE: 'true',
+          BUCKET_ARN: Match.anyValue(),
+          CACHE_BUCKET_NAME: Match.anyValue(),
+        }),
+      },
+    });
+    buffered.hasResourceProperties('AWS::Lambda::Function', {
+      Description: 'Next.js Server Handler',
+      Environment: { Variables: Match.objectLike({ OPEN_NEXT_FORCE_NON_EMPTY_RESPONSE: Match.absent() }) },
+    });
+    expect(getSubstitutionConfig(streaming)).toEqual(getSubstitutionConfig(buffered));
+    expect(Object.keys(getSubstitutionConfig(streaming))).toEqual(['{{ BUCKET_ARN }}']);
+  });
+
+  test('streaming container should set streaming wrapper environment', () => {
+    const template = createServer({ streaming: true, packaging: NextjsServerPackaging.CONTAINER });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      PackageType: 'Image',
+      Environment: {
+        Variables: Match.objectLike({ OPEN_NEXT_FORCE_NON_EMPTY_RESPONSE: 'true', BUCKET_ARN: Match.anyValue() }),
+      },
+    });
+  });
+
+  test('container should preload substitution of unresolved environment', () => {
+    const template = createServer({ packaging: NextjsServerPackaging.CONTAINER });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      PackageType: 'Image',
+      Environment: {
+        Variables: Match.objectLike({
+          NEXTJS_SUBSTITUTION_KEYS: 'BUCKET_ARN',
+          NODE_OPTIONS: '--require /opt/nextjs/substitute.js',
+        }),
+      },
+    });
+  });
+
+  describe('code key', () => {
+    function getCodeKeys(template: Template) {
+      const [customResource] = Object.values(template.findResources('Custom::NextjsBucketDeployment'));
+      const [fn] = Object.values(
+        template.findResources('AWS::Lambda::Function', {
+          Properties: { Description: 'Next.js Server Handler' },
+        })
+      );
+      return { destinationKeyPrefix: customResource.Properties.destinationKeyPrefix, code: fn.Properties.Code };
+    }
+
+    test('should be same across identical builds', () => {
+      const keysA = getCodeKeys(createServer());
+      const keysB = getCodeKeys(createServer());
+      expect(keysA).toEqual(keysB);
+      expect(keysA.code.S3Key).toEqual({
+        'Fn::GetAtt': [expect.stringMatching(/^ServerBucketDeployment/), 'ZipObjectKey'],
+      });
+    });
+
+    test('should change when code changes', () => {
+      const keysA = getCodeKeys(createServer());
+      const keysB = getCodeKeys(createServer({}, 'export const handler = () => 1;'));
+      expect(keysA.destinationKeyPrefix).not.toEqual(keysB.destinationKeyPrefix);
+    });
+
+    test('should publish version described by zip key', () => {
+      const template = createServer();
+      template.hasResourceProperties('AWS::Lambda::Version', {
+        Description: {
+          'Fn::Join': ['', ['Next.js Server Handler ', { 'Fn::GetAtt': [Match.anyValue(), 'ZipObjectKey'] }]],
+        },
+      });
+    });
+  });
+
+  describe('alias', () => {
+    test('should point live alias at current version', () => {
+      const template = createServer();
+      template.hasResourceProperties('AWS::Lambda::Alias', {
+        Name: 'live',
+        FunctionVersion: { 'Fn::GetAtt': [Match.stringLikeRegexp('^ServerFnCurrentVersion'), 'Version'] },
+        ProvisionedConcurrencyConfig: Match.absent(),
+      });
+      template.resourceCountIs('AWS::ApplicationAutoScaling::ScalableTarget', 0);
+    });
+
+    test('should provision concurrency without scaling', () => {
+      const template = createServer({ provisionedConcurrency: { minCapacity: 2 } });
+      template.hasResourceProperties('AWS::Lambda::Alias', {
+        ProvisionedConcurrencyConfig: { ProvisionedConcurrentExecutions: 2 },
+      });
+      template.resourceCountIs('AWS::ApplicationAutoScaling::ScalableTarget', 0);
+    });
+
+    test('should scale provisioned concurrency on utilization and schedule', () => {
+      const template = createServer({
+        provisionedConcurrency: {
+          minCapacity: 1,
+          maxCapacity: 10,
+          utilizationTarget: 0.7,
+          schedules: [{ schedule: Schedule.cron({ hour: '8', minute: '0' }), minCapacity: 5 }],
+        },
+      });
+      template.hasResourceProperties('AWS::ApplicationAutoScaling::ScalableTarget', {
+        MinCapacity: 1,
+        MaxCapacity: 10,
+        ScalableDimension: 'lambda:function:ProvisionedConcurrency',
+        ScheduledActions: [
+          Match.objectLike({ Schedule: 'cron(0 8 * * ? *)', ScalableTargetAction: { MinCapacity: 5 } }),
+        ],
+      });
+      template.hasResourceProperties('AWS::ApplicationAutoScaling::ScalingPolicy', {
+        TargetTrackingScalingPolicyConfiguration: Match.objectLike({
+          TargetValue: 0.7,
+          PredefinedMetricSpecification: { PredefinedMetricType: 'LambdaProvisionedConcurrencyUtilization' },
+        }),
+      });
+    });
+
+    test('should require maxCapacity to scale', () => {
+      expect(() => createServer({ provisionedConcurrency: { minCapacity: 1, utilizationTarget: 0.7 } })).toThrow(
+        '"provisionedConcurrency.maxCapacity" is required to scale provisioned concurrency.'
+      );
+    });
+  });
+
+  describe('deployment', () => {
+    test('should not create deployment group by default', () => {
+      createServer().resourceCountIs('AWS::CodeDeploy::DeploymentGroup', 0);
+    });
+
+    test('should shift live alias traffic and roll back on alarms', () => {
+      const template = createServer({
+        deploymentConfig: {
+          trafficShifting: LambdaDeploymentConfig.CANARY_10PERCENT_5MINUTES,
+          errorRateThreshold: 5,
+          url5xxThreshold: 10,
+        },
+      });
+      template.hasResource('AWS::Lambda::Alias', {
+        UpdatePolicy: {
+          CodeDeployLambdaAliasUpdate: {
+            ApplicationName: { Ref: Match.stringLikeRegexp('^ServerDeploymentGroupApplication') },
+            DeploymentGroupName: { Ref: Match.stringLikeRegexp('^ServerDeploymentGroup') },
+          },
+        },
+      });
+      template.hasResourceProperties('AWS::CodeDeploy::DeploymentGroup', {
+        DeploymentConfigName: 'CodeDeployDefault.LambdaCanary10Percent5Minutes',
+        AlarmConfiguration: {
+          Enabled: true,
+          Alarms: [
+            { Name: { Ref: Match.stringLikeRegexp('^ServerErrorRateAlarm') } },
+            { Name: { Ref: Match.stringLikeRegexp('^ServerUrl5xxAlarm') } },
+          ],
+        },
+        AutoRollbackConfiguration: Match.objectLike({ Enabled: true }),
+      });
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        Threshold: 5,
+        ComparisonOperator: 'GreaterThanThreshold',
+        TreatMissingData: 'notBreaching',
+        Metrics: Match.arrayWith([Match.objectLike({ Expression: '100 * errors / MAX([errors, invocations])' })]),
+      });
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        Threshold: 10,
+        MetricName: 'Url5xxCount',
+        Statistic: 'Sum',
+        Period: 60,
+        Dimensions: Match.arrayWith([{ Name: 'Resource', Value: Match.anyValue() }]),
+      });
+    });
+
+    test('should only create requested alarms', () => {
+      const template = createServer({
+        deploymentConfig: { trafficShifting: LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_1MINUTE },
+      });
+      template.resourceCountIs('AWS::CloudWatch::Alarm', 0);
+      template.hasResourceProperties('AWS::CodeDeploy::DeploymentGroup', {
+        DeploymentConfigName: 'CodeDeployDefault.LambdaLinear10PercentEvery1Minute',
+        AlarmConfiguration: Match.absent(),
+      });
+    });
+  });
+});
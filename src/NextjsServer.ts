@@ -1,11 +1,15 @@
-import { randomUUID } from 'node:crypto';
-import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { cpSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
 import { tmpdir } from 'node:os';
-import { resolve } from 'node:path';
-import { Stack } from 'aws-cdk-lib';
-import { Code, Function, FunctionOptions } from 'aws-cdk-lib/aws-lambda';
+import { join, resolve } from 'node:path';
+import { Duration, Stack, Token } from 'aws-cdk-lib';
+import { ScalingSchedule } from 'aws-cdk-lib/aws-applicationautoscaling';
+import { Alarm, ComparisonOperator, IAlarm, MathExpression, TreatMissingData } from 'aws-cdk-lib/aws-cloudwatch';
+import { ILambdaDeploymentConfig, LambdaDeploymentGroup } from 'aws-cdk-lib/aws-codedeploy';
+import { Platform } from 'aws-cdk-lib/aws-ecr-assets';
+import { Alias, Code, DockerImageCode, DockerImageFunction, Function, FunctionOptions } from 'aws-cdk-lib/aws-lambda';
 import { Bucket, IBucket } from 'aws-cdk-lib/aws-s3';
 import { Asset } from 'aws-cdk-lib/aws-s3-assets';
+import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
 import { Construct } from 'constructs';
 import { CACHE_BUCKET_KEY_PREFIX } from './constants';
 import { NextjsBaseProps } from './NextjsBase';
@@ -13,9 +17,57 @@ import { NextjsBucketDeployment } from './NextjsBucketDeployment';
 import { NextjsBuild } from './NextjsBuild';
 import { getCommonFunctionProps } from './utils/common-lambda-props';
 import { createArchive } from './utils/create-archive';
+import {
+  getOriginVerifyEnvironment,
+  getOriginVerifyFilePath,
+  ORIGIN_VERIFY_FILE_NAME,
+  ORIGIN_VERIFY_HANDLER,
+} from './utils/origin-verify';
+
+/**
+ * Path of substitution script within container image.
+ */
+const SUBSTITUTE_PATH = '/opt/nextjs/substitute.js';
 
 export type EnvironmentVars = Record<string, string>;
 
+/**
+ * How server function code is packaged.
+ */
+export enum NextjsServerPackaging {
+  /**
+   * Zip archive deployed from S3. Limited to 250 MB unzipped.
+   */
+  ZIP = 'zip',
+  /**
+   * Container image built from a generated Dockerfile. Limited to 10 GB.
+   * Requires Docker at synth time.
+   */
+  CONTAINER = 'container',
+}
+
+export interface NextjsServerProvisionedConcurrencyProps {
+  /**
+   * Provisioned concurrency of the `live` alias. Minimum capacity when
+   * scaling with `utilizationTarget` or `schedules`.
+   */
+  readonly minCapacity: number;
+  /**
+   * Maximum provisioned concurrency. Required when scaling with
+   * `utilizationTarget` or `schedules`.
+   */
+  readonly maxCapacity?: number;
+  /**
+   * Target utilization of provisioned concurrency (between 0.1 and 0.9)
+   * for target tracking scaling.
+   */
+  readonly utilizationTarget?: number;
+  /**
+   * Scheduled scaling actions, i.e. to scale up during business hours.
+   */
+  readonly schedules?: ScalingSchedule[];
+}
+
 export interface NextjsServerProps extends NextjsBaseProps {
   /**
    * Built nextJS application.
@@ -31,6 +83,53 @@ export interface NextjsServerProps extends NextjsBaseProps {
    * Static asset bucket. Function needs bucket to read from cache.
    */
   readonly staticAssetBucket: IBucket;
+
+  /**
+   * Provisioned concurrency and Application Auto Scaling for the `live` alias.
+   */
+  readonly provisionedConcurrency?: NextjsServerProvisionedConcurrencyProps;
+
+  /**
+   * Gradually shift traffic to new versions with CodeDeploy, rolling back
+   * automatically if the deployment fails or alarms.
+   */
+  readonly deploymentConfig?: NextjsServerDeploymentConfig;
+
+  /**
+   * Package server function as zip or container image. Use container image
+   * if server function exceeds Lambda's 250 MB unzipped limit.
+   * @default NextjsServerPackaging.ZIP
+   */
+  readonly packaging?: NextjsServerPackaging;
+
+  /**
+   * Wrap handler so requests without `x-origin-verify` header matching this
+   * secret are rejected.
+   */
+  readonly originVerifySecret?: ISecret;
+}
+
+export interface NextjsServerDeploymentConfig {
+  /**
+   * Canary or linear traffic shifting of the `live` alias to new versions,
+   * i.e. `LambdaDeploymentConfig.CANARY_10PERCENT_5MINUTES`.
+   */
+  readonly trafficShifting: ILambdaDeploymentConfig;
+  /**
+   * Alarms that roll back the deployment when in ALARM state.
+   */
+  readonly alarms?: IAlarm[];
+  /**
+   * Creates an alarm that rolls back the deployment when the percentage of
+   * `live` alias invocations that error exceeds this value.
+   */
+  readonly errorRateThreshold?: number;
+  /**
+   * Creates an alarm that rolls back the deployment when the number of 5xx
+   * responses from the `live` alias's function URL exceeds this value per
+   * minute.
+   */
+  readonly url5xxThreshold?: number;
 }
 
 /**
@@ -39,6 +138,16 @@ export interface NextjsServerProps extends NextjsBaseProps {
 export class NextjsServer extends Construct {
   configBucket?: Bucket;
   lambdaFunction: Function;
+  /**
+   * `live` alias pointing to latest published version of `lambdaFunction`.
+   * Invoke (i.e. function URL) this instead of `lambdaFunction`.
+   */
+  alias: Alias;
+  /**
+   * Shifts traffic of `alias` to new versions. Only defined if
+   * `deploymentConfig` is set.
+   */
+  deploymentGroup?: LambdaDeploymentGroup;
 
   private props: NextjsServerProps;
   private get environment(): Record<string, string> {
@@ -48,31 +157,71 @@ export class NextjsServer extends Construct {
       CACHE_BUCKET_NAME: this.props.staticAssetBucket.bucketName,
       CACHE_BUCKET_REGION: Stack.of(this.props.staticAssetBucket).region,
       CACHE_BUCKET_KEY_PREFIX,
+      // open-next's streaming wrapper writes a byte to empty bodies (i.e. 304s)
+      // which Lambda otherwise never ends
+      ...(this.props.streaming ? { OPEN_NEXT_FORCE_NON_EMPTY_RESPONSE: 'true' } : {}),
+      ...(this.props.originVerifySecret
+        ? getOriginVerifyEnvironment({
+            secret: this.props.originVerifySecret,
+            handler: this.originalHandler,
+            streaming: this.props.streaming,
+          })
+        : {}),
     };
   }
+  private get originalHandler(): string {
+    return this.props.nextBuild.openNextOutput?.origins.default?.handler ?? 'index.handler';
+  }
+  private get handler(): string {
+    return this.props.originVerifySecret ? ORIGIN_VERIFY_HANDLER : this.originalHandler;
+  }
 
   constructor(scope: Construct, id: string, props: NextjsServerProps) {
     super(scope, id);
     this.props = props;
+    this.validateStreaming();
 
-    // must create code asset separately (typically it is implicitly created in
-    //`Function` construct) b/c we need to substitute unresolve env vars
-    const sourceAsset = this.createSourceCodeAsset();
-    // source and destination assets are defined separately so that source
-    // assets are immutable (easier debugging). Technically we could overwrite
-    // source asset
-    const destinationAsset = this.createDestinationCodeAsset();
-    const bucketDeployment = this.createBucketDeployment(sourceAsset, destinationAsset);
-    this.lambdaFunction = this.createFunction(destinationAsset);
-    // don't update lambda function until bucket deployment is complete
-    this.lambdaFunction.node.addDependency(bucketDeployment);
+    if (props.packaging === NextjsServerPackaging.CONTAINER) {
+      this.lambdaFunction = this.createContainerFunction();
+    } else {
+      // must create code asset separately (typically it is implicitly created in
+      //`Function` construct) b/c we need to substitute unresolve env vars
+      const sourceAsset = this.createSourceCodeAsset();
+      // source and destination objects are separate so that source assets are
+      // immutable (easier debugging). Technically we could overwrite source asset
+      const bucketDeployment = this.createBucketDeployment(sourceAsset);
+      this.lambdaFunction = this.createFunction(sourceAsset, bucketDeployment);
+      // don't update lambda function until bucket deployment is complete
+      this.lambdaFunction.node.addDependency(bucketDeployment);
+    }
+    this.props.originVerifySecret?.grantRead(this.lambdaFunction);
+    this.alias = this.createAlias();
+    this.createAutoScaling();
+    this.deploymentGroup = this.createDeploymentGroup();
+  }
+
+  /**
+   * open-next v3 decides whether server is built with streaming wrapper so
+   * ensure function URL invoke mode matches what was built.
+   */
+  private validateStreaming() {
+    const builtWithStreaming = this.props.nextBuild.openNextOutput?.origins.default?.streaming;
+    if (builtWithStreaming !== undefined && builtWithStreaming !== !!this.props.streaming) {
+      throw new Error(
+        builtWithStreaming
+          ? 'Server function was built with a streaming wrapper. Set "streaming" to true.'
+          : 'Server function was not built with a streaming wrapper. Set `default.override.wrapper` to "aws-lambda-streaming" in open-next.config.ts or set "streaming" to false.'
+      );
+    }
   }
 
   private createSourceCodeAsset() {
     const archivePath = createArchive({
       directory: this.props.nextBuild.nextServerFnDir,
-      quiet: this.props.quiet,
       zipFileName: 'server-fn.zip',
+      additionalFiles: this.props.originVerifySecret
+        ? { [ORIGIN_VERIFY_FILE_NAME]: getOriginVerifyFilePath() }
+        : undefined,
     });
     const asset = new Asset(this, 'SourceCodeAsset', {
       path: archivePath,
@@ -82,27 +231,16 @@ export class NextjsServer extends Construct {
     return asset;
   }
 
-  private createDestinationCodeAsset() {
-    // create dummy directory to upload with random values so it's uploaded each time
-    // TODO: look into caching?
-    const assetsTmpDir = mkdtempSync(resolve(tmpdir(), 'bucket-deployment-dest-asset-'));
-    // this code will never run b/c we explicitly declare dependency between
-    // lambda function and bucket deployment.
-    writeFileSync(resolve(assetsTmpDir, 'index.mjs'), `export function handler() { return '${randomUUID()}' }`);
-    const destinationAsset = new Asset(this, 'DestinationCodeAsset', {
-      path: assetsTmpDir,
-    });
-    rmSync(assetsTmpDir, { recursive: true });
-    return destinationAsset;
-  }
-
-  private createBucketDeployment(sourceAsset: Asset, destinationAsset: Asset) {
+  private createBucketDeployment(sourceAsset: Asset) {
     const bucketDeployment = new NextjsBucketDeployment(this, 'BucketDeployment', {
       asset: sourceAsset,
       debug: true,
-      destinationBucket: destinationAsset.bucket,
-      destinationKeyPrefix: destinationAsset.s3ObjectKey,
-      prune: true,
+      // destination zip key is derived from source asset hash and substituted
+      // values so unchanged code results in no custom resource or lambda update
+      destinationBucket: sourceAsset.bucket,
+      destinationKeyPrefix: sourceAsset.assetHash,
+      // don't prune so previous code remains available for rollbacks
+      prune: false,
       // this.props.environment is for build time, not this.environment which is for runtime
       substitutionConfig: NextjsBucketDeployment.getSubstitutionConfig(this.props.environment || {}),
       zip: true,
@@ -110,21 +248,157 @@ export class NextjsServer extends Construct {
     return bucketDeployment;
   }
 
-  private createFunction(asset: Asset) {
+  private createFunction(asset: Asset, bucketDeployment: NextjsBucketDeployment) {
     // until after the build time env vars in code zip asset are substituted
     const fn = new Function(this, 'Fn', {
       ...getCommonFunctionProps(this),
-      code: Code.fromBucket(asset.bucket, asset.s3ObjectKey),
-      handler: 'index.handler',
+      code: Code.fromBucket(asset.bucket, bucketDeployment.zipObjectKey),
+      handler: this.handler,
       description: 'Next.js Server Handler',
       ...this.props.lambda,
       // `environment` needs to go after `this.props.lambda` b/c if
       // `this.props.lambda.environment` is defined, it will override
       // CACHE_* environment variables which are required
       environment: { ...this.environment, ...this.props.lambda?.environment },
+      currentVersionOptions: {
+        ...this.props.lambda?.currentVersionOptions,
+        // zip key changes when code does. changing a version's description
+        // replaces it which publishes a new version.
+        description: `Next.js Server Handler ${bucketDeployment.zipObjectKey}`,
+      },
+    });
+    this.props.staticAssetBucket.grantReadWrite(fn);
+
+    return fn;
+  }
+
+  private createContainerFunction() {
+    const { runtime, ...commonProps } = getCommonFunctionProps(this);
+    const architecture = this.props.lambda?.architecture ?? commonProps.architecture!;
+    const contextDir = this.createDockerContext(runtime!.name);
+    // env vars are substituted as files are read at runtime instead of by
+    // NextjsBucketDeployment b/c image cannot be modified after it's built.
+    // their values are already in `this.environment`
+    const substitutionKeys = Object.entries(this.props.environment || {})
+      .filter(([, v]) => Token.isUnresolved(v))
+      .map(([k]) => k);
+    const environment = { ...this.environment, ...this.props.lambda?.environment };
+    const fn = new DockerImageFunction(this, 'Fn', {
+      ...commonProps,
+      code: DockerImageCode.fromImageAsset(contextDir, {
+        cmd: [this.handler],
+        platform: Platform.custom(architecture.dockerPlatform),
+      }),
+      description: 'Next.js Server Handler',
+      ...this.props.lambda,
+      environment: {
+        ...environment,
+        ...(substitutionKeys.length
+          ? {
+              NEXTJS_SUBSTITUTION_KEYS: substitutionKeys.join(','),
+              NODE_OPTIONS: [environment.NODE_OPTIONS, `--require ${SUBSTITUTE_PATH}`].filter(Boolean).join(' '),
+            }
+          : {}),
+      },
     });
+    // DockerImageAsset copies context into cdk.out/. This cleans up tmp folder
+    rmSync(contextDir, { recursive: true });
     this.props.staticAssetBucket.grantReadWrite(fn);
 
     return fn;
   }
+
+  /**
+   * Creates Docker build context with server function code and a script
+   * preloaded to substitute build time env vars.
+   */
+  private createDockerContext(runtimeName: string) {
+    const contextDir = mkdtempSync(join(tmpdir(), 'cdk-nextjs-server-image-'));
+    cpSync(this.props.nextBuild.nextServerFnDir, join(contextDir, 'app'), {
+      recursive: true,
+      verbatimSymlinks: true,
+    });
+    if (this.props.originVerifySecret) {
+      cpSync(getOriginVerifyFilePath(), join(contextDir, 'app', ORIGIN_VERIFY_FILE_NAME));
+    }
+    const substituteDir = resolve(__dirname, '..', 'assets', 'lambdas', 'nextjs-server-substitute');
+    cpSync(join(substituteDir, 'index.js'), join(contextDir, 'substitute.js'));
+    // i.e. nodejs18.x -> 18
+    const nodeVersion = runtimeName.replace(/^nodejs|\.x$/g, '');
+    writeFileSync(
+      join(contextDir, 'Dockerfile'),
+      [
+        `FROM public.ecr.aws/lambda/nodejs:${nodeVersion}`,
+        'COPY app/ ${LAMBDA_TASK_ROOT}/',
+        `COPY substitute.js ${SUBSTITUTE_PATH}`,
+        '',
+      ].join('\n')
+    );
+    return contextDir;
+  }
+
+  private createAlias() {
+    return new Alias(this, 'Alias', {
+      aliasName: 'live',
+      version: this.lambdaFunction.currentVersion,
+      provisionedConcurrentExecutions: this.props.provisionedConcurrency?.minCapacity,
+    });
+  }
+
+  private createAutoScaling() {
+    const { minCapacity, maxCapacity, utilizationTarget, schedules } = this.props.provisionedConcurrency ?? {};
+    if (utilizationTarget === undefined && !schedules?.length) return;
+    if (maxCapacity === undefined) {
+      throw new Error('"provisionedConcurrency.maxCapacity" is required to scale provisioned concurrency.');
+    }
+    const scaling = this.alias.addAutoScaling({ minCapacity, maxCapacity });
+    if (utilizationTarget !== undefined) {
+      scaling.scaleOnUtilization({ utilizationTarget });
+    }
+    schedules?.forEach((schedule, i) => scaling.scaleOnSchedule(`Schedule${i}`, schedule));
+  }
+
+  private createDeploymentGroup() {
+    const { deploymentConfig } = this.props;
+    if (!deploymentConfig) return;
+    const alarms = [...(deploymentConfig.alarms ?? [])];
+    if (deploymentConfig.errorRateThreshold !== undefined) {
+      const errorRate = new MathExpression({
+        expression: '100 * errors / MAX([errors, invocations])',
+        usingMetrics: {
+          errors: this.alias.metricErrors({ period: Duration.minutes(1) }),
+          invocations: this.alias.metricInvocations({ period: Duration.minutes(1) }),
+        },
+        label: 'Error rate (%)',
+        period: Duration.minutes(1),
+      });
+      alarms.push(
+        new Alarm(this, 'ErrorRateAlarm', {
+          metric: errorRate,
+          threshold: deploymentConfig.errorRateThreshold,
+          evaluationPeriods: 1,
+          comparisonOperator: ComparisonOperator.GREATER_THAN_THRESHOLD,
+          treatMissingData: TreatMissingData.NOT_BREACHING,
+          alarmDescription: 'Next.js server error rate',
+        })
+      );
+    }
+    if (deploymentConfig.url5xxThreshold !== undefined) {
+      alarms.push(
+        new Alarm(this, 'Url5xxAlarm', {
+          metric: this.alias.metric('Url5xxCount', { statistic: 'Sum', period: Duration.minutes(1) }),
+          threshold: deploymentConfig.url5xxThreshold,
+          evaluationPeriods: 1,
+          comparisonOperator: ComparisonOperator.GREATER_THAN_THRESHOLD,
+          treatMissingData: TreatMissingData.NOT_BREACHING,
+          alarmDescription: 'Next.js server function URL 5xx responses',
+        })
+      );
+    }
+    return new LambdaDeploymentGroup(this, 'DeploymentGroup', {
+      alias: this.alias,
+      deploymentConfig: deploymentConfig.trafficShifting,
+      alarms,
+    });
+  }
 }
@@ -1,6 +1,6 @@
 import * as fs from 'node:fs';
 import { tmpdir } from 'node:os';
-import { resolve } from 'node:path';
+import { join, resolve } from 'node:path';
 import { RemovalPolicy } from 'aws-cdk-lib';
 import * as s3 from 'aws-cdk-lib/aws-s3';
 import { Asset } from 'aws-cdk-lib/aws-s3-assets';
@@ -85,6 +85,9 @@ export class NextjsStaticAssets extends Construct {
     const tmpAssetsDir = fs.mkdtempSync(resolve(tmpdir(), 'cdk-nextjs-assets-'));
     fs.cpSync(this.props.nextBuild.nextStaticDir, tmpAssetsDir, { recursive: true });
     fs.cpSync(this.props.nextBuild.nextCacheDir, resolve(tmpAssetsDir, CACHE_BUCKET_KEY_PREFIX), { recursive: true });
+    for (const [key, filePath] of Object.entries(this.props.nextBuild.nextErrorPages)) {
+      fs.cpSync(filePath, join(tmpAssetsDir, key));
+    }
     const asset = new Asset(this, 'Asset', {
       path: tmpAssetsDir,
     });
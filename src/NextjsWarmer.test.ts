@@ -0,0 +1,71 @@
+import { App, Duration, Stack } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { Bucket } from 'aws-cdk-lib/aws-s3';
+import { NextjsServer } from './NextjsServer';
+import { NextjsWarmer, NextjsWarmerOptions } from './NextjsWarmer';
+import { createNextjsBuild, FUNCTION_CODE, useNextjsApps } from './test-utils';
+
+describe('NextjsWarmer', () => {
+  const createNextjsApp = useNextjsApps();
+
+  function createWarmer(options: NextjsWarmerOptions = {}) {
+    const nextjsPath = createNextjsApp({
+      '.open-next/server-function/index.mjs': FUNCTION_CODE,
+      '.open-next/warmer-function/index.mjs': FUNCTION_CODE,
+    });
+    const stack = new Stack(new App(), 'Stack', { env: { region: 'us-east-1' } });
+    const nextBuild = createNextjsBuild(stack, nextjsPath);
+    const serverFunction = new NextjsServer(stack, 'Server', {
+      nextjsPath,
+      nextBuild,
+      staticAssetBucket: new Bucket(stack, 'Bucket'),
+    });
+    new NextjsWarmer(stack, 'Warmer', { nextjsPath, nextBuild, serverFunction, ...options });
+    return Template.fromStack(stack);
+  }
+
+  const aliasRef = { Ref: Match.stringLikeRegexp('^ServerAlias') };
+
+  test('should warm server alias with v2 and v3 parameters', () => {
+    const template = createWarmer({ concurrency: 3 });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Description: 'Next.js Warmer Function',
+      Timeout: 60,
+      Environment: {
+        Variables: {
+          FUNCTION_NAME: Match.anyValue(),
+          CONCURRENCY: '3',
+          WARM_PARAMS: Match.anyValue(),
+        },
+      },
+    });
+    const [warmerFn] = Object.values(
+      template.findResources('AWS::Lambda::Function', { Properties: { Description: 'Next.js Warmer Function' } })
+    );
+    expect(JSON.stringify(warmerFn.Properties.Environment.Variables.WARM_PARAMS)).toContain('\\"concurrency\\":3');
+  });
+
+  test('should only be allowed to invoke server alias', () => {
+    const template = createWarmer();
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyName: Match.stringLikeRegexp('^WarmerFnServiceRoleDefaultPolicy'),
+      PolicyDocument: {
+        Statement: [{ Action: 'lambda:InvokeFunction', Effect: 'Allow', Resource: aliasRef }],
+      },
+    });
+  });
+
+  test('should invoke warmer on schedule without retries', () => {
+    createWarmer().hasResourceProperties('AWS::Events::Rule', {
+      ScheduleExpression: 'rate(5 minutes)',
+      Targets: [Match.objectLike({ RetryPolicy: { MaximumRetryAttempts: 0 } })],
+    });
+    const template = createWarmer({ interval: Duration.minutes(10) });
+    template.hasResourceProperties('AWS::Events::Rule', { ScheduleExpression: 'rate(10 minutes)' });
+    template.hasResourceProperties('AWS::Lambda::Permission', {
+      Action: 'lambda:InvokeFunction',
+      Principal: 'events.amazonaws.com',
+      FunctionName: { 'Fn::GetAtt': [Match.stringLikeRegexp('^WarmerFn'), 'Arn'] },
+    });
+  });
+});
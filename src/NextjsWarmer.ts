@@ -0,0 +1,89 @@
+import { Duration, Stack } from 'aws-cdk-lib';
+import { Rule, Schedule } from 'aws-cdk-lib/aws-events';
+import { LambdaFunction as LambdaFunctionTarget } from 'aws-cdk-lib/aws-events-targets';
+import { Code, Function as LambdaFunction, FunctionOptions } from 'aws-cdk-lib/aws-lambda';
+import { Construct } from 'constructs';
+import { NextjsBaseProps } from './NextjsBase';
+import type { NextjsBuild } from './NextjsBuild';
+import type { NextjsServer } from './NextjsServer';
+import { getCommonFunctionProps } from './utils/common-lambda-props';
+
+export interface NextjsWarmerOptions {
+  /**
+   * Number of server function instances to keep warm.
+   * @default 1
+   */
+  readonly concurrency?: number;
+  /**
+   * How often to invoke the warmer function.
+   * @default Duration.minutes(5)
+   */
+  readonly interval?: Duration;
+  /**
+   * Override function properties.
+   */
+  readonly lambdaOptions?: FunctionOptions;
+}
+
+export interface NextjsWarmerProps extends NextjsBaseProps, NextjsWarmerOptions {
+  /**
+   * The `NextjsBuild` instance representing the built Nextjs application.
+   */
+  readonly nextBuild: NextjsBuild;
+  /**
+   * The main NextJS server handler lambda function to keep warm.
+   */
+  readonly serverFunction: NextjsServer;
+}
+
+/**
+ * Periodically invokes the server function with open-next's warmer function
+ * to reduce cold starts.
+ *
+ * @see {@link https://open-next.js.org/inner_workings/warming}
+ */
+export class NextjsWarmer extends Construct {
+  function: LambdaFunction;
+  rule: Rule;
+  private props: NextjsWarmerProps;
+
+  constructor(scope: Construct, id: string, props: NextjsWarmerProps) {
+    super(scope, id);
+    this.props = props;
+
+    this.function = this.createFunction();
+    this.rule = this.createRule();
+  }
+
+  private createFunction(): LambdaFunction {
+    const { lambdaOptions } = this.props;
+    const serverFunction = this.props.serverFunction.alias;
+    const concurrency = this.props.concurrency ?? 1;
+    const fn = new LambdaFunction(this, 'Fn', {
+      ...getCommonFunctionProps(this),
+      code: Code.fromAsset(this.props.nextBuild.nextWarmerFnDir),
+      handler: this.props.nextBuild.openNextOutput?.additionalProps?.warmer?.handler ?? 'index.handler',
+      description: 'Next.js Warmer Function',
+      // warmer waits for all concurrent server invocations to respond
+      timeout: Duration.minutes(1),
+      ...lambdaOptions,
+      environment: {
+        // open-next v2
+        FUNCTION_NAME: serverFunction.functionName,
+        CONCURRENCY: concurrency.toString(),
+        // open-next v3
+        WARM_PARAMS: Stack.of(this).toJsonString([{ concurrency, function: serverFunction.functionName }]),
+        ...lambdaOptions?.environment,
+      },
+    });
+    serverFunction.grantInvoke(fn);
+    return fn;
+  }
+
+  private createRule(): Rule {
+    return new Rule(this, 'Rule', {
+      schedule: Schedule.rate(this.props.interval ?? Duration.minutes(5)),
+      targets: [new LambdaFunctionTarget(this.function, { retryAttempts: 0 })],
+    });
+  }
+}
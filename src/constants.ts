@@ -4,6 +4,12 @@ export const DEFAULT_STATIC_MAX_AGE = Duration.days(30).toSeconds();
 export const DEFAULT_STATIC_STALE_WHILE_REVALIDATE = Duration.days(1).toSeconds();
 
 export const CACHE_BUCKET_KEY_PREFIX = '_cache';
+export const IMAGE_CACHE_BUCKET_KEY_PREFIX = '_image-cache';
+export const DEFAULT_REVALIDATION_PATH = '_revalidate';
+export const ORIGIN_VERIFY_HEADER = 'x-origin-verify';
+// maintenance mode is on if this key's value in KeyValueStore is `on`
+export const MAINTENANCE_KEY = 'maintenance';
+export const MAINTENANCE_BYPASS_COOKIE = 'nextjs-maintenance-bypass';
 
 export const NEXTJS_STATIC_DIR = 'assets';
 export const NEXTJS_BUILD_DIR = '.open-next';
@@ -12,3 +18,12 @@ export const NEXTJS_BUILD_REVALIDATE_FN_DIR = 'revalidation-function';
 export const NEXTJS_BUILD_DYNAMODB_PROVIDER_FN_DIR = 'dynamodb-provider';
 export const NEXTJS_BUILD_IMAGE_FN_DIR = 'image-optimization-function';
 export const NEXTJS_BUILD_SERVER_FN_DIR = 'server-function';
+export const NEXTJS_BUILD_OUTPUT_FILE = 'open-next.output.json';
+export const NEXTJS_CONFIG_FILE = 'open-next.config.ts';
+export const NEXTJS_BUILD_HASH_FILE = '.cdk-nextjs-build-hash';
+export const NEXTJS_BUILD_WARMER_FN_DIR = 'warmer-function';
+export const NEXT_DIST_DIR = '.next';
+export const NEXT_IMAGES_MANIFEST_FILE = 'images-manifest.json';
+export const NEXT_BUILD_ID_FILE = 'BUILD_ID';
+export const NEXT_PRERENDER_MANIFEST_FILE = 'prerender-manifest.json';
+export const NEXT_REQUIRED_SERVER_FILES_FILE = 'required-server-files.json';
@@ -2,21 +2,58 @@ export { BaseSiteDomainProps, NextjsBaseProps } from './NextjsBase';
 
 // L2 constructs
 export { NextjsStaticAssets, NextjsStaticAssetsProps } from './NextjsStaticAssets';
-export { NextjsRevalidation, NextjsRevalidationProps } from './NextjsRevalidation';
-export { NextjsBuild, NextjsBuildProps } from './NextjsBuild';
-export { EnvironmentVars, NextjsServer, NextjsServerProps } from './NextjsServer';
-export { NextjsImage, NextjsImageProps } from './NextjsImage';
+export {
+  NextjsRevalidation,
+  NextjsRevalidationEndpointOptions,
+  NextjsRevalidationMode,
+  NextjsRevalidationProps,
+  NextjsRevalidationQueueOptions,
+  NextjsScheduledRevalidation,
+} from './NextjsRevalidation';
+export {
+  NextjsBuild,
+  NextjsBuildProps,
+  NextjsImagesConfig,
+  OpenNextAdditionalProps,
+  OpenNextBehavior,
+  OpenNextFunctionOutput,
+  OpenNextOrigin,
+  OpenNextOutput,
+  OpenNextS3OriginCopy,
+} from './NextjsBuild';
+export {
+  EnvironmentVars,
+  NextjsServer,
+  NextjsServerDeploymentConfig,
+  NextjsServerPackaging,
+  NextjsServerProps,
+  NextjsServerProvisionedConcurrencyProps,
+} from './NextjsServer';
+export { NextjsImage, NextjsImageCacheProps, NextjsImageProps } from './NextjsImage';
+export {
+  NextjsImagePregeneration,
+  NextjsImagePregenerationOptions,
+  NextjsImagePregenerationProps,
+} from './NextjsImagePregeneration';
 export { NextjsBucketDeployment, NextjsBucketDeploymentProps } from './NextjsBucketDeployment';
 export {
   NextjsDistribution,
   NextjsDistributionCdkProps,
   NextjsDistributionCdkOverrideProps,
   NextjsDistributionProps,
+  NextjsErrorPagesProps,
+  NextjsSecurityHeadersProps,
+  NextjsFunctionUrlSigning,
+  NextjsStaticOriginAccess,
+  NextjsStaticRouting,
   NextjsDomainProps,
   NextjsCachePolicyProps,
   NextjsOriginRequestPolicyProps,
 } from './NextjsDistribution';
+export { NextjsMaintenance, NextjsMaintenanceOptions, NextjsMaintenanceProps } from './NextjsMaintenance';
+export { NextjsOriginVerify, NextjsOriginVerifyOptions, NextjsOriginVerifyProps } from './NextjsOriginVerify';
 export { NextjsInvalidation, NextjsInvalidationProps } from './NextjsInvalidation';
+export { NextjsWarmer, NextjsWarmerOptions, NextjsWarmerProps } from './NextjsWarmer';
 
 // L3 constructs
 export { Nextjs, NextjsProps, NextjsDefaultsProps } from './Nextjs';
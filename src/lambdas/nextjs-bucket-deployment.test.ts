@@ -0,0 +1,26 @@
+import { getZipObjectKey } from './nextjs-bucket-deployment';
+
+describe('NextjsBucketDeployment', () => {
+  describe('getZipObjectKey', () => {
+    const props = {
+      sourceBucketName: 'source',
+      sourceKeyPrefix: 'asset.zip',
+      destinationBucketName: 'destination',
+      destinationKeyPrefix: 'assethash',
+      substitutionConfig: { '{{ BUCKET_ARN }}': 'arn:aws:s3:::bucket' },
+    };
+
+    test('should be same for same source and substituted values', () => {
+      expect(getZipObjectKey(props)).toBe(getZipObjectKey({ ...props }));
+      expect(getZipObjectKey(props)).toMatch(/^assethash\/[0-9a-f]{64}\.zip$/);
+    });
+
+    test('should change when source or substituted values change', () => {
+      const key = getZipObjectKey(props);
+      expect(getZipObjectKey({ ...props, destinationKeyPrefix: 'otherhash' })).not.toBe(key);
+      expect(getZipObjectKey({ ...props, substitutionConfig: { '{{ BUCKET_ARN }}': 'arn:aws:s3:::other' } })).not.toBe(
+        key
+      );
+    });
+  });
+});
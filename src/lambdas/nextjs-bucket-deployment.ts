@@ -1,4 +1,5 @@
 /* eslint-disable import/no-extraneous-dependencies */
+import { createHash } from 'node:crypto';
 import {
   createReadStream,
   createWriteStream,
@@ -32,6 +33,7 @@ import type * as JSZipType from 'jszip';
 import _JSZip from 'jszip';
 import * as micromatch from 'micromatch';
 import * as mime from 'mime-types';
+import { cfnResponse, CfnResponseProps } from './utils/cfn-response';
 import type { CustomResourceProperties, NextjsBucketDeploymentProps } from '../NextjsBucketDeployment';
 const JSZip = _JSZip as JSZipType;
 
@@ -40,6 +42,7 @@ const s3 = new S3Client({});
 export const handler: CloudFormationCustomResourceHandler = async (event, context) => {
   debug({ event });
   let responseStatus: 'SUCCESS' | 'FAILED' = 'SUCCESS';
+  let responseData: CfnResponseProps['responseData'];
   try {
     if (event.RequestType === 'Create' || event.RequestType === 'Update') {
       const props = getProperties(event);
@@ -73,13 +76,15 @@ export const handler: CloudFormationCustomResourceHandler = async (event, contex
           putConfig: props.putConfig,
         });
       } else {
-        debug('Uploading zip to: ' + props.destinationBucketName);
+        const zipObjectKey = getZipObjectKey(props);
+        debug(`Uploading zip to: ${props.destinationBucketName}/${zipObjectKey}`);
         const zipBuffer = await zipObjects({ tmpDir: sourceDirPath });
         await uploadZip({
           zipBuffer,
           bucket: props.destinationBucketName,
-          keyPrefix: props.destinationKeyPrefix,
+          key: zipObjectKey,
         });
+        responseData = { ZipObjectKey: zipObjectKey };
       }
       if (tmpDir.length) {
         debug('Removing temp directory');
@@ -91,7 +96,7 @@ export const handler: CloudFormationCustomResourceHandler = async (event, contex
     console.error(err);
     responseStatus = 'FAILED';
   }
-  await cfnResponse({ event, context, responseStatus });
+  await cfnResponse({ event, context, responseStatus, responseData });
 };
 
 function debug(value: unknown) {
@@ -296,19 +301,33 @@ function zipObjects({ tmpDir }: { tmpDir: string }): Promise<Buffer> {
   });
 }
 
+/**
+ * Derives zip key from `destinationKeyPrefix` (i.e. source asset hash) and
+ * resolved substitution values so the key only changes when the code does.
+ */
+export function getZipObjectKey({ destinationKeyPrefix, substitutionConfig }: CustomResourceProperties): string {
+  const substitutionHash = createHash('sha256')
+    .update(JSON.stringify(substitutionConfig ?? {}))
+    .digest('hex');
+  const keyPaths: string[] = [];
+  if (destinationKeyPrefix) keyPaths.push(destinationKeyPrefix);
+  keyPaths.push(`${substitutionHash}.zip`);
+  return keyPaths.join('/');
+}
+
 async function uploadZip({
   bucket,
-  keyPrefix,
+  key,
   zipBuffer,
 }: {
   bucket: CustomResourceProperties['destinationBucketName'];
-  keyPrefix?: CustomResourceProperties['destinationKeyPrefix'];
+  key: string;
   zipBuffer: Buffer;
 }) {
   return s3.send(
     new PutObjectCommand({
       Bucket: bucket,
-      Key: keyPrefix,
+      Key: key,
       Body: zipBuffer,
       ContentType: 'application/zip',
     })
@@ -330,30 +349,3 @@ function getPutObjectOptions({
   }
   return putObjectOptions;
 }
-
-interface CfnResponseProps {
-  event: Parameters<CloudFormationCustomResourceHandler>[0];
-  context: Parameters<CloudFormationCustomResourceHandler>[1];
-  responseStatus: 'SUCCESS' | 'FAILED';
-  responseData?: Record<string, string>;
-  physicalResourceId?: string;
-}
-/**
- * Inspired by: https://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/cfn-lambda-function-code-cfnresponsemodule.html
- */
-function cfnResponse(props: CfnResponseProps) {
-  const body = JSON.stringify({
-    Status: props.responseStatus,
-    Reason: 'See the details in CloudWatch Log Stream: ' + props.context.logStreamName,
-    PhysicalResourceId: props.physicalResourceId || props.context.logStreamName,
-    StackId: props.event.StackId,
-    RequestId: props.event.RequestId,
-    LogicalResourceId: props.event.LogicalResourceId,
-    Data: props.responseData,
-  });
-  return fetch(props.event.ResponseURL, {
-    method: 'PUT',
-    body,
-    headers: { 'content-type': '', 'content-length': body.length.toString() },
-  });
-}
@@ -0,0 +1,89 @@
+import { GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import type { APIGatewayProxyEventV2, Context } from 'aws-lambda';
+import { createImageCacheHandler } from './nextjs-image-cache';
+
+describe('NextjsImageCache', () => {
+  // untyped as `send` is overloaded
+  const send = jest.spyOn(S3Client.prototype, 'send') as unknown as jest.Mock;
+  const optimizedResponse = {
+    statusCode: 200,
+    isBase64Encoded: true,
+    body: Buffer.from('optimized').toString('base64'),
+    headers: { 'Content-Type': 'image/webp', 'Cache-Control': 'public, max-age=31536000, immutable' },
+  };
+
+  beforeEach(() => {
+    send.mockReset();
+    process.env.IMAGE_CACHE_BUCKET_NAME = 'cache-bucket';
+    process.env.IMAGE_CACHE_KEY_PREFIX = '_cache/images';
+    process.env.IMAGE_CACHE_SOURCE_VERSION = 'build';
+    process.env.IMAGE_CACHE_FORMATS = 'image/avif,image/webp';
+  });
+
+  afterAll(() => send.mockRestore());
+
+  test('should serve cached image without calling original handler', async () => {
+    send.mockResolvedValueOnce({
+      Body: { transformToByteArray: async () => Buffer.from('cached') },
+      ContentType: 'image/webp',
+      CacheControl: 'public, max-age=31536000, immutable',
+    });
+    const originalHandler = jest.fn();
+    const handler = createImageCacheHandler(async () => originalHandler);
+
+    const response = await handler(getImageRequest(), {} as Context);
+
+    expect(originalHandler).not.toHaveBeenCalled();
+    const command = send.mock.calls[0][0] as GetObjectCommand;
+    expect(command).toBeInstanceOf(GetObjectCommand);
+    expect(command.input).toEqual({ Bucket: 'cache-bucket', Key: '_cache/images/build/images/a.png/640-75.webp' });
+    expect(response).toMatchObject({
+      statusCode: 200,
+      body: Buffer.from('cached').toString('base64'),
+      headers: { 'Content-Type': 'image/webp', 'Cache-Control': 'public, max-age=31536000, immutable' },
+    });
+  });
+
+  test('should optimize and write image to cache on miss', async () => {
+    send.mockRejectedValueOnce(Object.assign(new Error('not found'), { name: 'NoSuchKey' }));
+    send.mockResolvedValueOnce({});
+    const originalHandler = jest.fn().mockResolvedValue(optimizedResponse);
+    const handler = createImageCacheHandler(async () => originalHandler);
+
+    const response = await handler(getImageRequest(), {} as Context);
+
+    expect(response).toBe(optimizedResponse);
+    expect(originalHandler).toHaveBeenCalledTimes(1);
+    const command = send.mock.calls[1][0] as PutObjectCommand;
+    expect(command).toBeInstanceOf(PutObjectCommand);
+    expect(command.input).toEqual({
+      Bucket: 'cache-bucket',
+      Key: '_cache/images/build/images/a.png/640-75.webp',
+      Body: Buffer.from('optimized'),
+      ContentType: 'image/webp',
+      CacheControl: 'public, max-age=31536000, immutable',
+    });
+  });
+
+  test('should not cache when format is not negotiated or response is not optimized image', async () => {
+    const originalHandler = jest.fn().mockResolvedValue({ ...optimizedResponse, statusCode: 400 });
+    const handler = createImageCacheHandler(async () => originalHandler);
+
+    await handler(getImageRequest({ accept: 'image/png' }), {} as Context);
+    expect(send).not.toHaveBeenCalled();
+
+    send.mockRejectedValueOnce(Object.assign(new Error('not found'), { name: 'NoSuchKey' }));
+    await handler(getImageRequest(), {} as Context);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(originalHandler).toHaveBeenCalledTimes(2);
+  });
+});
+
+function getImageRequest({ accept = 'image/webp,*/*' } = {}): APIGatewayProxyEventV2 {
+  return {
+    rawPath: '/_next/image',
+    rawQueryString: 'url=%2Fimages%2Fa.png&w=640&q=75',
+    queryStringParameters: { url: '/images/a.png', w: '640', q: '75' },
+    headers: { accept },
+  } as unknown as APIGatewayProxyEventV2;
+}
@@ -0,0 +1,123 @@
+/* eslint-disable import/no-extraneous-dependencies */
+import { GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import type { APIGatewayProxyEventV2, APIGatewayProxyStructuredResultV2, Context } from 'aws-lambda';
+import { Handler, importHandler } from './utils/import-handler';
+import { getImageCacheKey } from '../utils/image-cache-key';
+
+// Next.js' default for `images.minimumCacheTTL`
+const DEFAULT_CACHE_CONTROL = 'public, max-age=60, must-revalidate';
+
+const s3 = new S3Client({});
+
+/**
+ * Wraps image optimization function's original handler
+ * (`IMAGE_CACHE_HANDLER`). Serves optimized images from image cache bucket
+ * (`IMAGE_CACHE_BUCKET_NAME`) and, on miss, writes original handler's
+ * response to it so CloudFront cache misses don't re-run sharp.
+ */
+export const handler = createImageCacheHandler(() => importHandler(process.env.IMAGE_CACHE_HANDLER ?? 'index.handler'));
+
+export function createImageCacheHandler(getOriginalHandler: () => Promise<Handler>) {
+  let originalHandler: Promise<Handler> | undefined;
+  return async (event: APIGatewayProxyEventV2, context: Context): Promise<APIGatewayProxyStructuredResultV2> => {
+    const bucket = process.env.IMAGE_CACHE_BUCKET_NAME!;
+    const cacheRequest = getImageCacheRequest(event);
+    const key =
+      cacheRequest &&
+      getImageCacheKey({
+        keyPrefix: process.env.IMAGE_CACHE_KEY_PREFIX!,
+        sourceVersion: process.env.IMAGE_CACHE_SOURCE_VERSION,
+        ...cacheRequest,
+      });
+    if (key) {
+      const cachedResponse = await getCachedResponse({ bucket, key });
+      if (cachedResponse) return cachedResponse;
+    }
+    originalHandler ??= getOriginalHandler();
+    const response = (await (await originalHandler)(event, context)) as APIGatewayProxyStructuredResultV2;
+    if (key && cacheRequest && isCacheable(response, cacheRequest.format)) {
+      await putCachedResponse({ bucket, key, response });
+    }
+    return response;
+  };
+}
+
+/**
+ * Optimized image requested by `_next/image?url=...&w=...&q=...`. Format is
+ * negotiated like Next.js: first of `IMAGE_CACHE_FORMATS` in `Accept` header.
+ * Undefined if request isn't cacheable, i.e. format would be source image's.
+ */
+function getImageCacheRequest(event: APIGatewayProxyEventV2) {
+  const { url, w, q } = event.queryStringParameters ?? {};
+  const width = Number(w);
+  const quality = Number(q);
+  if (!url || !Number.isInteger(width) || !Number.isInteger(quality)) return undefined;
+  const accept = event.headers?.accept ?? '';
+  const formats = (process.env.IMAGE_CACHE_FORMATS || 'image/webp').split(',');
+  const format = formats.find((f) => accept.includes(f));
+  if (!format) return undefined;
+  return { url, width, quality, format };
+}
+
+async function getCachedResponse({
+  bucket,
+  key,
+}: {
+  bucket: string;
+  key: string;
+}): Promise<APIGatewayProxyStructuredResultV2 | undefined> {
+  try {
+    const data = await s3.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+    if (!data.Body) return undefined;
+    const body = Buffer.from(await data.Body.transformToByteArray());
+    return {
+      statusCode: 200,
+      isBase64Encoded: true,
+      body: body.toString('base64'),
+      headers: {
+        'Content-Type': data.ContentType ?? 'application/octet-stream',
+        'Cache-Control': data.CacheControl ?? DEFAULT_CACHE_CONTROL,
+        Vary: 'Accept',
+      },
+    };
+  } catch (err) {
+    // cache is best effort so fall back to optimizing image
+    if ((err as Error).name !== 'NoSuchKey') console.error(err);
+    return undefined;
+  }
+}
+
+function isCacheable(response: APIGatewayProxyStructuredResultV2, format: string) {
+  const contentType = getHeader(response, 'content-type');
+  return response.statusCode === 200 && !!response.body && contentType === format;
+}
+
+async function putCachedResponse({
+  bucket,
+  key,
+  response,
+}: {
+  bucket: string;
+  key: string;
+  response: APIGatewayProxyStructuredResultV2;
+}) {
+  try {
+    await s3.send(
+      new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: Buffer.from(response.body!, response.isBase64Encoded ? 'base64' : 'utf8'),
+        ContentType: getHeader(response, 'content-type'),
+        CacheControl: getHeader(response, 'cache-control'),
+      })
+    );
+  } catch (err) {
+    // response is still returned if it can't be cached
+    console.error(err);
+  }
+}
+
+function getHeader(response: APIGatewayProxyStructuredResultV2, name: string) {
+  const entry = Object.entries(response.headers ?? {}).find(([k]) => k.toLowerCase() === name);
+  return entry === undefined ? undefined : String(entry[1]);
+}
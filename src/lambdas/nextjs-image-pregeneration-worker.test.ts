@@ -0,0 +1,73 @@
+import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import type { Context, SQSEvent } from 'aws-lambda';
+import { handler, NextjsImagePregenerationMessage } from './nextjs-image-pregeneration-worker';
+
+jest.mock(
+  'sharp',
+  () => () => {
+    const image = {
+      rotate: () => image,
+      resize: () => image,
+      toFormat: (format: string) => ({ ...image, toBuffer: async () => Buffer.from(format) }),
+      toBuffer: async () => Buffer.from(''),
+    };
+    return image;
+  },
+  { virtual: true }
+);
+
+describe('NextjsImagePregenerationWorker', () => {
+  // untyped as `send` is overloaded
+  const send = jest.spyOn(S3Client.prototype, 'send') as unknown as jest.Mock;
+  const message: NextjsImagePregenerationMessage = {
+    sourceBucketName: 'static-bucket',
+    sourceKey: 'images/a.jpg',
+    destinationBucketName: 'cache-bucket',
+    destinationKeyPrefix: '_image-cache',
+    destinationSourceVersion: 'build',
+    widths: [640, 1080],
+    formats: ['image/webp', 'image/avif'],
+    quality: 75,
+    cacheControl: 'public, max-age=60, must-revalidate',
+  };
+
+  beforeEach(() => send.mockReset());
+
+  afterAll(() => send.mockRestore());
+
+  test('should upload every width and format of source image to image cache', async () => {
+    send.mockImplementation(async () => ({ Body: { transformToByteArray: async () => Buffer.from('source') } }));
+
+    const response = await handler(getEvent([message]), {} as Context, () => {});
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    const puts = send.mock.calls.map(([command]) => command).filter((c) => c instanceof PutObjectCommand);
+    expect(puts.map((c: PutObjectCommand) => c.input.Key).sort()).toEqual([
+      '_image-cache/build/images/a.jpg/1080-75.avif',
+      '_image-cache/build/images/a.jpg/1080-75.webp',
+      '_image-cache/build/images/a.jpg/640-75.avif',
+      '_image-cache/build/images/a.jpg/640-75.webp',
+    ]);
+    expect(puts[0].input).toMatchObject({
+      Bucket: 'cache-bucket',
+      ContentType: 'image/webp',
+      CacheControl: 'public, max-age=60, must-revalidate',
+    });
+  });
+
+  test('should report failed images so they are retried', async () => {
+    jest.spyOn(console, 'error').mockImplementationOnce(() => {});
+    send.mockRejectedValueOnce(new Error('Access Denied'));
+    send.mockImplementation(async () => ({ Body: { transformToByteArray: async () => Buffer.from('source') } }));
+
+    const response = await handler(getEvent([message, message]), {} as Context, () => {});
+
+    expect(response).toEqual({ batchItemFailures: [{ itemIdentifier: '0' }] });
+  });
+});
+
+function getEvent(messages: NextjsImagePregenerationMessage[]): SQSEvent {
+  return {
+    Records: messages.map((m, i) => ({ messageId: String(i), body: JSON.stringify(m) })),
+  } as unknown as SQSEvent;
+}
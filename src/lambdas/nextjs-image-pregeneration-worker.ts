@@ -0,0 +1,113 @@
+/* eslint-disable import/no-extraneous-dependencies */
+import { GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import type { SQSBatchResponse, SQSHandler } from 'aws-lambda';
+import { getImageCacheKey } from '../utils/image-cache-key';
+
+/**
+ * Body of message sent by pre-generation custom resource for each source
+ * image.
+ */
+export interface NextjsImagePregenerationMessage {
+  sourceBucketName: string;
+  sourceKey: string;
+  destinationBucketName: string;
+  destinationKeyPrefix: string;
+  destinationSourceVersion?: string;
+  widths: number[];
+  formats: string[];
+  quality: number;
+  cacheControl: string;
+}
+
+/**
+ * Subset of sharp's API used below. sharp is provided by sharp layer.
+ */
+interface Sharp {
+  rotate(): Sharp;
+  resize(options: { width: number; withoutEnlargement: boolean }): Sharp;
+  toFormat(format: string, options: { quality: number }): Sharp;
+  toBuffer(): Promise<Buffer>;
+}
+
+const s3 = new S3Client({});
+
+/**
+ * Optimizes one source image per message into all widths and formats and
+ * uploads them to image cache. Failed messages are retried and eventually
+ * moved to dead-letter queue.
+ */
+export const handler: SQSHandler = async (event) => {
+  const response: SQSBatchResponse = { batchItemFailures: [] };
+  // one image at a time so memory is bounded by largest image's variants
+  for (const record of event.Records) {
+    try {
+      await pregenerateImage(JSON.parse(record.body));
+    } catch (err) {
+      console.error(err);
+      response.batchItemFailures.push({ itemIdentifier: record.messageId });
+    }
+  }
+  return response;
+};
+
+export async function pregenerateImage(message: NextjsImagePregenerationMessage) {
+  debug(`Pre-generating: ${message.sourceKey}`);
+  const image = await downloadObject({ bucket: message.sourceBucketName, key: message.sourceKey });
+  await Promise.all(
+    message.widths.flatMap((width) =>
+      message.formats.map(async (format) => {
+        const body = await optimizeImage({ image, width, format, quality: message.quality });
+        await s3.send(
+          new PutObjectCommand({
+            Bucket: message.destinationBucketName,
+            Key: getImageCacheKey({
+              keyPrefix: message.destinationKeyPrefix,
+              sourceVersion: message.destinationSourceVersion,
+              url: `/${message.sourceKey}`,
+              width,
+              quality: message.quality,
+              format,
+            }),
+            Body: body,
+            ContentType: format,
+            CacheControl: message.cacheControl,
+          })
+        );
+      })
+    )
+  );
+}
+
+function debug(value: unknown) {
+  if (process.env.DEBUG) console.log(JSON.stringify(value, null, 2));
+}
+
+async function downloadObject({ bucket, key }: { bucket: string; key: string }) {
+  const data = await s3.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+  if (!data.Body) throw new Error(`Object ${bucket}/${key} has no body`);
+  return Buffer.from(await data.Body.transformToByteArray());
+}
+
+/**
+ * Resizes and encodes image like Next.js' image optimizer.
+ * @see {@link https://github.com/vercel/next.js/blob/canary/packages/next/src/server/image-optimizer.ts}
+ */
+function optimizeImage({
+  image,
+  width,
+  format,
+  quality,
+}: {
+  image: Buffer;
+  width: number;
+  format: string;
+  quality: number;
+}) {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const sharp: (input: Buffer) => Sharp = require('sharp');
+  return sharp(image)
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .toFormat(format.replace(/^image\//, ''), { quality })
+    .toBuffer();
+}
@@ -0,0 +1,97 @@
+/* eslint-disable import/no-extraneous-dependencies */
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { SendMessageBatchCommand, SQSClient } from '@aws-sdk/client-sqs';
+import type { CloudFormationCustomResourceHandler } from 'aws-lambda';
+import type { NextjsImagePregenerationMessage } from './nextjs-image-pregeneration-worker';
+import { cfnResponse, CfnResponseProps } from './utils/cfn-response';
+import type {
+  NextjsImagePregenerationCustomResourceProperties,
+  NextjsImagePregenerationManifest,
+} from '../NextjsImagePregeneration';
+
+// SQS limit of messages per `SendMessageBatch`
+const BATCH_SIZE = 10;
+
+const s3 = new S3Client({});
+const sqs = new SQSClient({});
+
+/**
+ * Sends a message per source image listed in manifest to queue. Images are
+ * optimized by worker function so custom resource responds well within
+ * Lambda's timeout regardless of number of images.
+ */
+export const handler: CloudFormationCustomResourceHandler = async (event, context) => {
+  debug({ event });
+  let responseStatus: 'SUCCESS' | 'FAILED' = 'SUCCESS';
+  let responseData: CfnResponseProps['responseData'];
+  try {
+    if (event.RequestType === 'Create' || event.RequestType === 'Update') {
+      const props = getProperties(event);
+      const { sourceKeys } = await getManifest(props);
+      const messages = sourceKeys.map(
+        (sourceKey): NextjsImagePregenerationMessage => ({
+          sourceBucketName: props.sourceBucketName,
+          sourceKey,
+          destinationBucketName: props.destinationBucketName,
+          destinationKeyPrefix: props.destinationKeyPrefix,
+          destinationSourceVersion: props.destinationSourceVersion,
+          widths: props.widths,
+          formats: props.formats,
+          quality: props.quality,
+          cacheControl: props.cacheControl,
+        })
+      );
+      await sendMessages(props.queueUrl, messages);
+      const variantCount = sourceKeys.length * props.widths.length * props.formats.length;
+      // workers report failures to dead-letter queue, not to custom resource
+      responseData = {
+        QueuedImageCount: sourceKeys.length.toString(),
+        QueuedVariantCount: variantCount.toString(),
+      };
+      console.log(`Queued ${variantCount} variants of ${sourceKeys.length} images`);
+    }
+    // optimized images are expired by image cache's lifecycle rule on delete
+  } catch (err) {
+    console.error(err);
+    responseStatus = 'FAILED';
+  }
+  await cfnResponse({ event, context, responseStatus, responseData });
+};
+
+function debug(value: unknown) {
+  if (process.env.DEBUG) console.log(JSON.stringify(value, null, 2));
+}
+
+/**
+ * CloudFormation passes all custom resource properties as strings.
+ */
+function getProperties(event: Parameters<CloudFormationCustomResourceHandler>[0]) {
+  const props = event.ResourceProperties;
+  return {
+    ...props,
+    widths: props.widths.map(Number),
+    quality: Number(props.quality),
+  } as NextjsImagePregenerationCustomResourceProperties & { ServiceToken: string };
+}
+
+async function getManifest({
+  manifestBucketName,
+  manifestKey,
+}: NextjsImagePregenerationCustomResourceProperties): Promise<NextjsImagePregenerationManifest> {
+  const data = await s3.send(new GetObjectCommand({ Bucket: manifestBucketName, Key: manifestKey }));
+  if (!data.Body) throw new Error(`Object ${manifestBucketName}/${manifestKey} has no body`);
+  return JSON.parse(await data.Body.transformToString());
+}
+
+async function sendMessages(queueUrl: string, messages: NextjsImagePregenerationMessage[]) {
+  for (let i = 0; i < messages.length; i += BATCH_SIZE) {
+    const entries = messages.slice(i, i + BATCH_SIZE).map((message, j) => ({
+      Id: String(i + j),
+      MessageBody: JSON.stringify(message),
+    }));
+    const { Failed } = await sqs.send(new SendMessageBatchCommand({ QueueUrl: queueUrl, Entries: entries }));
+    if (Failed?.length) {
+      throw new Error(`Failed to queue ${Failed.length} images: ${Failed.map((f) => f.Message).join(', ')}`);
+    }
+  }
+}
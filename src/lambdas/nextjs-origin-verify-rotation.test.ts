@@ -0,0 +1,92 @@
+import {
+  GetRandomPasswordCommand,
+  GetSecretValueCommand,
+  PutSecretValueCommand,
+  SecretsManagerClient,
+} from '@aws-sdk/client-secrets-manager';
+import type { CloudFormationCustomResourceEvent, Context } from 'aws-lambda';
+import { handler } from './nextjs-origin-verify-rotation';
+import { cfnResponse } from './utils/cfn-response';
+
+jest.mock('./utils/cfn-response');
+
+describe('NextjsOriginVerifyRotation', () => {
+  // untyped as `send` is overloaded
+  const send = jest.spyOn(SecretsManagerClient.prototype, 'send') as unknown as jest.Mock;
+  const secretArn = 'arn:aws:secretsmanager:us-east-1:123456789012:secret:origin-verify';
+
+  beforeEach(() => {
+    send.mockReset();
+    jest.mocked(cfnResponse).mockReset();
+    send.mockImplementation(async (command) => {
+      if (command instanceof GetSecretValueCommand) return { SecretString: 'current' };
+      if (command instanceof GetRandomPasswordCommand) return { RandomPassword: 'new' };
+      return {};
+    });
+  });
+
+  afterAll(() => send.mockRestore());
+
+  test('should respond with current value hidden from outputs', async () => {
+    await handler(
+      getEvent({ RequestType: 'Create', ResourceProperties: { secretArn, rotationId: '' } }),
+      {
+        logStreamName: 'log',
+      } as Context,
+      () => {}
+    );
+
+    expect(getResponse()).toMatchObject({
+      responseStatus: 'SUCCESS',
+      physicalResourceId: secretArn,
+      responseData: { Value: 'current' },
+      noEcho: true,
+    });
+    expect(send.mock.calls.some(([c]) => c instanceof PutSecretValueCommand)).toBe(false);
+  });
+
+  test('should rotate secret when rotation id changes', async () => {
+    await handler(
+      getEvent({
+        RequestType: 'Update',
+        ResourceProperties: { secretArn, rotationId: '2' },
+        OldResourceProperties: { secretArn, rotationId: '1' },
+      }),
+      { logStreamName: 'log' } as Context,
+      () => {}
+    );
+
+    const put = send.mock.calls.map(([c]) => c).find((c) => c instanceof PutSecretValueCommand);
+    expect(put.input).toEqual({ SecretId: secretArn, SecretString: 'new' });
+    expect(getResponse()).toMatchObject({ responseStatus: 'SUCCESS', responseData: { Value: 'new' } });
+  });
+
+  test('should keep value on other updates', async () => {
+    await handler(
+      getEvent({
+        RequestType: 'Update',
+        ResourceProperties: { secretArn, rotationId: '1' },
+        OldResourceProperties: { secretArn, rotationId: '1' },
+      }),
+      { logStreamName: 'log' } as Context,
+      () => {}
+    );
+
+    expect(send.mock.calls.some(([c]) => c instanceof PutSecretValueCommand)).toBe(false);
+    expect(getResponse()).toMatchObject({ responseStatus: 'SUCCESS', responseData: { Value: 'current' } });
+  });
+
+  function getResponse() {
+    return jest.mocked(cfnResponse).mock.calls[0][0];
+  }
+});
+
+function getEvent(event: Record<string, any>) {
+  return {
+    ResponseURL: 'https://cloudformation.example.com',
+    StackId: 'stack',
+    RequestId: 'request',
+    LogicalResourceId: 'OriginVerify',
+    ...event,
+  } as unknown as CloudFormationCustomResourceEvent;
+}
@@ -0,0 +1,65 @@
+/* eslint-disable import/no-extraneous-dependencies */
+import {
+  GetRandomPasswordCommand,
+  GetSecretValueCommand,
+  PutSecretValueCommand,
+  SecretsManagerClient,
+} from '@aws-sdk/client-secrets-manager';
+import type { CloudFormationCustomResourceHandler } from 'aws-lambda';
+import { cfnResponse, CfnResponseProps } from './utils/cfn-response';
+import type { NextjsOriginVerifyCustomResourceProperties } from '../NextjsOriginVerify';
+
+const secretsManager = new SecretsManagerClient({});
+
+/**
+ * Provides `x-origin-verify` header value to CloudFormation so the
+ * distribution's origins are only updated by CloudFormation. Rotates secret
+ * when `rotationId` changes. New value becomes `AWSCURRENT` before the
+ * distribution is updated and wrapper handlers accept `AWSPREVIOUS` until it
+ * is deployed. Response data contains `Value`, hidden with `NoEcho`.
+ */
+export const handler: CloudFormationCustomResourceHandler = async (event, context) => {
+  let responseStatus: 'SUCCESS' | 'FAILED' = 'SUCCESS';
+  let responseData: CfnResponseProps['responseData'];
+  const props = event.ResourceProperties as unknown as NextjsOriginVerifyCustomResourceProperties;
+  try {
+    if (event.RequestType === 'Create') {
+      responseData = { Value: await getSecretValue(props.secretArn) };
+    } else if (event.RequestType === 'Update') {
+      const oldProps = event.OldResourceProperties as unknown as NextjsOriginVerifyCustomResourceProperties;
+      const isRotation = props.secretArn === oldProps.secretArn && props.rotationId !== oldProps.rotationId;
+      responseData = {
+        Value: isRotation ? await rotateSecret(props.secretArn) : await getSecretValue(props.secretArn),
+      };
+    }
+  } catch (err) {
+    console.error(err);
+    responseStatus = 'FAILED';
+  }
+  await cfnResponse({
+    event,
+    context,
+    responseStatus,
+    responseData,
+    physicalResourceId: props.secretArn,
+    noEcho: true,
+  });
+};
+
+async function getSecretValue(secretId: string) {
+  const { SecretString } = await secretsManager.send(new GetSecretValueCommand({ SecretId: secretId }));
+  if (!SecretString) throw new Error(`Secret ${secretId} has no value`);
+  return SecretString;
+}
+
+/**
+ * Puts new value as `AWSCURRENT` which moves previous value to `AWSPREVIOUS`.
+ */
+async function rotateSecret(secretId: string) {
+  console.log(`Rotating ${secretId}`);
+  const { RandomPassword } = await secretsManager.send(
+    new GetRandomPasswordCommand({ PasswordLength: 32, ExcludePunctuation: true })
+  );
+  await secretsManager.send(new PutSecretValueCommand({ SecretId: secretId, SecretString: RandomPassword }));
+  return RandomPassword!;
+}
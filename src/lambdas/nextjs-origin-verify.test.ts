@@ -0,0 +1,84 @@
+import { GetSecretValueCommand, SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import type { APIGatewayProxyEventV2, Context } from 'aws-lambda';
+import { createOriginVerifyHandler, createStreamingOriginVerifyHandler } from './nextjs-origin-verify';
+
+describe('NextjsOriginVerify', () => {
+  // untyped as `send` is overloaded
+  const send = jest.spyOn(SecretsManagerClient.prototype, 'send') as unknown as jest.Mock;
+  const warmerEvent = { type: 'warmer', warmerId: 'warmer', index: 0, concurrency: 1, delay: 75 };
+  const responseStream = {} as NodeJS.WritableStream;
+  const end = jest.fn();
+
+  beforeAll(() => {
+    (global as any).awslambda = { HttpResponseStream: { from: () => ({ end }) } };
+  });
+
+  beforeEach(() => {
+    send.mockReset();
+    end.mockReset();
+    send.mockImplementation(async (command: GetSecretValueCommand) => {
+      if (command.input.VersionStage === 'AWSCURRENT') return { SecretString: 'secret' };
+      throw Object.assign(new Error('not found'), { name: 'ResourceNotFoundException' });
+    });
+  });
+
+  afterAll(() => {
+    send.mockRestore();
+    delete (global as any).awslambda;
+  });
+
+  describe('buffered', () => {
+    test('should reject requests without matching header', async () => {
+      const originalHandler = jest.fn();
+      const handler = createOriginVerifyHandler(async () => originalHandler);
+
+      expect(await handler(getEvent({}), {} as Context)).toEqual({ statusCode: 403, body: 'Forbidden' });
+      expect(await handler(getEvent({ 'x-origin-verify': 'wrong' }), {} as Context)).toEqual({
+        statusCode: 403,
+        body: 'Forbidden',
+      });
+      expect(originalHandler).not.toHaveBeenCalled();
+    });
+
+    test('should call original handler with matching header', async () => {
+      const originalHandler = jest.fn().mockResolvedValue({ statusCode: 200 });
+      const handler = createOriginVerifyHandler(async () => originalHandler);
+
+      expect(await handler(getEvent({ 'x-origin-verify': 'secret' }), {} as Context)).toEqual({ statusCode: 200 });
+    });
+
+    test('should let warmer events through without header', async () => {
+      const originalHandler = jest.fn().mockResolvedValue({ type: 'warmer' });
+      const handler = createOriginVerifyHandler(async () => originalHandler);
+
+      expect(await handler(warmerEvent as any, {} as Context)).toEqual({ type: 'warmer' });
+      expect(originalHandler).toHaveBeenCalledWith(warmerEvent, {});
+    });
+  });
+
+  describe('streaming', () => {
+    test('should reject requests without header', async () => {
+      const originalHandler = jest.fn();
+      const handler = createStreamingOriginVerifyHandler(async () => originalHandler);
+
+      await handler(getEvent({}), responseStream, {} as Context);
+
+      expect(end).toHaveBeenCalledWith('Forbidden');
+      expect(originalHandler).not.toHaveBeenCalled();
+    });
+
+    test('should let warmer events through without header', async () => {
+      const originalHandler = jest.fn();
+      const handler = createStreamingOriginVerifyHandler(async () => originalHandler);
+
+      await handler(warmerEvent as any, responseStream, {} as Context);
+
+      expect(end).not.toHaveBeenCalled();
+      expect(originalHandler).toHaveBeenCalledWith(warmerEvent, responseStream, {});
+    });
+  });
+});
+
+function getEvent(headers: Record<string, string>): APIGatewayProxyEventV2 {
+  return { headers } as unknown as APIGatewayProxyEventV2;
+}
@@ -0,0 +1,109 @@
+/* eslint-disable import/no-extraneous-dependencies */
+import { GetSecretValueCommand, SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import type { APIGatewayProxyEventV2, Context } from 'aws-lambda';
+import { Handler, importHandler } from './utils/import-handler';
+
+/**
+ * Globals provided by Lambda's Node.js runtime for response streaming.
+ */
+declare const awslambda: {
+  streamifyResponse: (handler: StreamingHandler) => StreamingHandler;
+  HttpResponseStream: {
+    from: (stream: NodeJS.WritableStream, metadata: { statusCode: number }) => NodeJS.WritableStream;
+  };
+};
+type StreamingHandler = (
+  event: APIGatewayProxyEventV2 | WarmerEvent,
+  responseStream: NodeJS.WritableStream,
+  context: Context
+) => Promise<unknown>;
+interface WarmerEvent {
+  type: 'warmer';
+}
+
+// must match `ORIGIN_VERIFY_HEADER` in constants
+const HEADER = 'x-origin-verify';
+// secret is fetched at most this often when a request doesn't match, i.e. while rotating
+const REFRESH_INTERVAL_MS = 10_000;
+// CloudFront may send either while rotated value is deployed to edge locations
+const VERSION_STAGES = ['AWSCURRENT', 'AWSPREVIOUS'];
+
+const secretsManager = new SecretsManagerClient({});
+
+let secretValues: string[] = [];
+let secretValuesFetchedAt = 0;
+
+/**
+ * Wraps function's original handler (`ORIGIN_VERIFY_HANDLER`) and rejects
+ * requests without `x-origin-verify` header matching secret
+ * (`ORIGIN_VERIFY_SECRET_ARN`) so function URL can't be called directly,
+ * bypassing CloudFront.
+ */
+export const handler =
+  process.env.ORIGIN_VERIFY_STREAMING === 'true'
+    ? awslambda.streamifyResponse(createStreamingOriginVerifyHandler(importOriginalHandler))
+    : createOriginVerifyHandler(importOriginalHandler);
+
+export function createOriginVerifyHandler(getOriginalHandler: () => Promise<Handler>) {
+  let originalHandler: Promise<Handler> | undefined;
+  return async (event: APIGatewayProxyEventV2 | WarmerEvent, context: Context) => {
+    if (!isWarmerEvent(event) && !(await isVerified(event))) {
+      return { statusCode: 403, body: 'Forbidden' };
+    }
+    originalHandler ??= getOriginalHandler();
+    return (await originalHandler)(event, context);
+  };
+}
+
+export function createStreamingOriginVerifyHandler(getOriginalHandler: () => Promise<Handler>): StreamingHandler {
+  let originalHandler: Promise<Handler> | undefined;
+  return async (event, responseStream, context) => {
+    if (!isWarmerEvent(event) && !(await isVerified(event))) {
+      const stream = awslambda.HttpResponseStream.from(responseStream, { statusCode: 403 });
+      stream.end('Forbidden');
+      return;
+    }
+    originalHandler ??= getOriginalHandler();
+    return (await originalHandler)(event, responseStream, context);
+  };
+}
+
+/**
+ * open-next's warmer invokes server function directly, without headers.
+ * Direct invocations already require IAM permissions.
+ */
+function isWarmerEvent(event: APIGatewayProxyEventV2 | WarmerEvent): event is WarmerEvent {
+  return (event as WarmerEvent).type === 'warmer';
+}
+
+async function isVerified(event: APIGatewayProxyEventV2) {
+  const header = event.headers?.[HEADER];
+  if (!header) return false;
+  if (!secretValues.includes(header) && Date.now() - secretValuesFetchedAt > REFRESH_INTERVAL_MS) {
+    secretValues = await fetchSecretValues();
+    secretValuesFetchedAt = Date.now();
+  }
+  return secretValues.includes(header);
+}
+
+async function fetchSecretValues() {
+  const values = await Promise.all(
+    VERSION_STAGES.map(async (VersionStage) => {
+      try {
+        const res = await secretsManager.send(
+          new GetSecretValueCommand({ SecretId: process.env.ORIGIN_VERIFY_SECRET_ARN, VersionStage })
+        );
+        return res.SecretString;
+      } catch (err) {
+        // AWSPREVIOUS only exists after rotation
+        if ((err as Error).name === 'ResourceNotFoundException') return undefined;
+        throw err;
+      }
+    })
+  );
+  return values.filter((v): v is string => !!v);
+}
+
+function importOriginalHandler(): Promise<Handler> {
+  return importHandler(process.env.ORIGIN_VERIFY_HANDLER ?? 'index.handler');
+}
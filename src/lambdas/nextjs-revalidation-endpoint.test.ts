@@ -0,0 +1,81 @@
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import type { APIGatewayProxyEventV2, APIGatewayProxyStructuredResultV2, Context } from 'aws-lambda';
+import { handler } from './nextjs-revalidation-endpoint';
+import { revalidate } from './utils/revalidation';
+
+jest.mock('./utils/revalidation');
+
+describe('NextjsRevalidationEndpoint', () => {
+  // untyped as `send` is overloaded
+  const send = jest.spyOn(SecretsManagerClient.prototype, 'send') as unknown as jest.Mock;
+
+  beforeAll(() => {
+    process.env.SECRET_ARN = 'arn:aws:secretsmanager:us-east-1:123456789012:secret:revalidation';
+  });
+
+  beforeEach(() => {
+    send.mockReset();
+    send.mockResolvedValue({ SecretString: 'secret' });
+    jest.mocked(revalidate).mockReset();
+    jest.mocked(revalidate).mockImplementation(async ({ paths = [] }) => paths);
+  });
+
+  afterAll(() => {
+    send.mockRestore();
+    delete process.env.SECRET_ARN;
+  });
+
+  test('should only accept POST', async () => {
+    const response = await invoke({ method: 'GET', secret: 'secret' });
+    expect(response.statusCode).toBe(405);
+  });
+
+  test('should reject missing or wrong secret', async () => {
+    for (const secret of [undefined, 'secreT', 'much-longer-secret', 's']) {
+      const response = await invoke({ secret, body: { paths: ['/'] } });
+      expect(response.statusCode).toBe(401);
+    }
+    expect(revalidate).not.toHaveBeenCalled();
+  });
+
+  test('should reject invalid body or missing host', async () => {
+    expect((await invoke({ secret: 'secret', body: '{' })).statusCode).toBe(400);
+    const response = await invoke({ secret: 'secret', body: { paths: ['/'] }, headers: {} });
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body!)).toEqual({ message: '"host" is required' });
+  });
+
+  test('should revalidate paths and tags on forwarded host', async () => {
+    const response = await invoke({
+      secret: 'secret',
+      body: Buffer.from(JSON.stringify({ paths: ['/blog'], tags: ['posts'] })).toString('base64'),
+      isBase64Encoded: true,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body!)).toEqual({ paths: ['/blog'] });
+    expect(revalidate).toHaveBeenCalledWith({ paths: ['/blog'], tags: ['posts'], host: 'example.com' });
+  });
+});
+
+async function invoke({
+  method = 'POST',
+  secret,
+  body,
+  isBase64Encoded = false,
+  headers = { 'x-forwarded-host': 'example.com' },
+}: {
+  method?: string;
+  secret?: string;
+  body?: string | Record<string, unknown>;
+  isBase64Encoded?: boolean;
+  headers?: Record<string, string>;
+}) {
+  const event = {
+    requestContext: { http: { method } },
+    headers: { ...headers, ...(secret ? { 'x-revalidation-secret': secret } : {}) },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+    isBase64Encoded,
+  } as unknown as APIGatewayProxyEventV2;
+  return (await handler(event, {} as Context, () => {})) as APIGatewayProxyStructuredResultV2;
+}
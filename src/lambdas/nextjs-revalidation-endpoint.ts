@@ -0,0 +1,51 @@
+/* eslint-disable import/no-extraneous-dependencies */
+import { timingSafeEqual } from 'node:crypto';
+import { GetSecretValueCommand, SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import type { APIGatewayProxyHandlerV2 } from 'aws-lambda';
+import { revalidate, RevalidationRequest } from './utils/revalidation';
+
+const secretsManager = new SecretsManagerClient({});
+
+let secretValue: string | undefined;
+
+/**
+ * Accepts `POST` with JSON body of `RevalidationRequest` and enqueues paths
+ * onto revalidation queue in open-next's message format. Tagged paths are
+ * marked as revalidated in revalidation table so they're stale until
+ * regenerated. `host` defaults to `x-forwarded-host`.
+ */
+export const handler: APIGatewayProxyHandlerV2 = async (event) => {
+  if (event.requestContext.http.method !== 'POST') {
+    return response(405, { message: 'Method not allowed' });
+  }
+  if (process.env.SECRET_ARN && !(await isAuthorized(event.headers['x-revalidation-secret']))) {
+    return response(401, { message: 'Unauthorized' });
+  }
+  let body: RevalidationRequest;
+  try {
+    body = JSON.parse(event.isBase64Encoded ? Buffer.from(event.body ?? '', 'base64').toString() : event.body ?? '{}');
+  } catch {
+    return response(400, { message: 'Body must be JSON' });
+  }
+  const host = body.host ?? event.headers['x-forwarded-host'];
+  if (!host) {
+    return response(400, { message: '"host" is required' });
+  }
+  const paths = await revalidate({ ...body, host });
+  return response(200, { paths });
+};
+
+function response(statusCode: number, body: Record<string, unknown>) {
+  return { statusCode, headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) };
+}
+
+async function isAuthorized(header: string | undefined) {
+  if (!header) return false;
+  if (secretValue === undefined) {
+    const secret = await secretsManager.send(new GetSecretValueCommand({ SecretId: process.env.SECRET_ARN }));
+    secretValue = secret.SecretString ?? '';
+  }
+  const expected = Buffer.from(secretValue);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
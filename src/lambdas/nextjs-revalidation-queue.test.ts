@@ -0,0 +1,30 @@
+import type { Context, SQSEvent } from 'aws-lambda';
+import { createRevalidationQueueHandler } from './nextjs-revalidation-queue';
+
+describe('NextjsRevalidationQueue', () => {
+  test('should invoke original handler once per message', async () => {
+    const originalHandler = jest.fn();
+    const handler = createRevalidationQueueHandler(async () => originalHandler);
+
+    const response = await handler(getEvent(['0', '1']), {} as Context);
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    expect(originalHandler).toHaveBeenCalledTimes(2);
+    expect(originalHandler.mock.calls[1][0].Records).toEqual([{ messageId: '1' }]);
+  });
+
+  test('should report failed message and messages after it', async () => {
+    jest.spyOn(console, 'error').mockImplementationOnce(() => {});
+    const originalHandler = jest.fn().mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('revalidate'));
+    const handler = createRevalidationQueueHandler(async () => originalHandler);
+
+    const response = await handler(getEvent(['0', '1', '2']), {} as Context);
+
+    expect(response).toEqual({ batchItemFailures: [{ itemIdentifier: '1' }, { itemIdentifier: '2' }] });
+    expect(originalHandler).toHaveBeenCalledTimes(2);
+  });
+});
+
+function getEvent(messageIds: string[]): SQSEvent {
+  return { Records: messageIds.map((messageId) => ({ messageId })) } as unknown as SQSEvent;
+}
@@ -0,0 +1,36 @@
+import type { Context, SQSBatchItemFailure, SQSBatchResponse, SQSEvent } from 'aws-lambda';
+import { Handler, importHandler } from './utils/import-handler';
+
+/**
+ * Wraps open-next's revalidation function handler
+ * (`REVALIDATION_QUEUE_HANDLER`) which throws on failure instead of
+ * reporting failed messages. Invokes it once per message so only failed
+ * messages are retried.
+ */
+export const handler = createRevalidationQueueHandler(() =>
+  importHandler(process.env.REVALIDATION_QUEUE_HANDLER ?? 'index.handler')
+);
+
+export function createRevalidationQueueHandler(getOriginalHandler: () => Promise<Handler>) {
+  let originalHandler: Promise<Handler> | undefined;
+  return async (event: SQSEvent, context: Context): Promise<SQSBatchResponse> => {
+    originalHandler ??= getOriginalHandler();
+    const batchItemFailures: SQSBatchItemFailure[] = [];
+    for (const record of event.Records) {
+      // queue is FIFO so messages after a failure are failed too to keep their order
+      if (batchItemFailures.length) {
+        batchItemFailures.push({ itemIdentifier: record.messageId });
+        continue;
+      }
+      try {
+        await (
+          await originalHandler
+        )({ ...event, Records: [record] }, context);
+      } catch (err) {
+        console.error(err);
+        batchItemFailures.push({ itemIdentifier: record.messageId });
+      }
+    }
+    return { batchItemFailures };
+  };
+}
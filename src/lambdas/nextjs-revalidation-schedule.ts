@@ -0,0 +1,14 @@
+import { revalidate, RevalidationRequest } from './utils/revalidation';
+
+/**
+ * Invoked by EventBridge rules of `scheduledRevalidations` with a
+ * `RevalidationRequest` as event. `host` defaults to `DEFAULT_HOST`.
+ */
+export async function handler(event: RevalidationRequest) {
+  const host = event.host ?? process.env.DEFAULT_HOST;
+  if (!host) {
+    throw new Error('"host" is required');
+  }
+  const paths = await revalidate({ ...event, host });
+  console.log(`Revalidating ${paths.length} paths: ${JSON.stringify(paths)}`);
+}
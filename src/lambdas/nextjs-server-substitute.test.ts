@@ -0,0 +1,37 @@
+import * as fs from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { createSubstitute, getSubstitutionConfig, install } from './nextjs-server-substitute';
+
+describe('nextjs-server-substitute', () => {
+  test('getSubstitutionConfig should map placeholders of listed keys', () => {
+    const config = getSubstitutionConfig({ NEXTJS_SUBSTITUTION_KEYS: 'A,B', A: 'a', C: 'c' });
+    expect(config).toEqual({ '{{ A }}': 'a', '{{ B }}': '' });
+  });
+
+  test('createSubstitute should escape regular expression characters in keys', () => {
+    const substitute = createSubstitute({ '{{ API.URL$ }}': 'https://example.com' });
+    expect(substitute('a={{ API.URL$ }} b={{ APIxURL$ }}')).toBe('a=https://example.com b={{ APIxURL$ }}');
+  });
+
+  test('install should substitute app files as they are read', async () => {
+    const root = fs.mkdtempSync(join(tmpdir(), 'nextjs-server-substitute-test-'));
+    fs.mkdirSync(join(root, 'node_modules'));
+    fs.writeFileSync(join(root, 'page.html'), '<a href="{{ API_URL }}">');
+    fs.writeFileSync(join(root, 'node_modules', 'index.js'), '"{{ API_URL }}"');
+    const restore = install(root, { '{{ API_URL }}': 'https://example.com' });
+    try {
+      expect(fs.readFileSync(join(root, 'page.html'), 'utf8')).toBe('<a href="https://example.com">');
+      expect(fs.readFileSync(join(root, 'page.html')).toString()).toBe('<a href="https://example.com">');
+      expect(await fs.promises.readFile(join(root, 'page.html'), 'utf8')).toBe('<a href="https://example.com">');
+      expect(await promisify(fs.readFile)(join(root, 'page.html'), 'utf8')).toBe('<a href="https://example.com">');
+      expect(fs.readFileSync(join(root, 'node_modules', 'index.js'), 'utf8')).toBe('"{{ API_URL }}"');
+    } finally {
+      restore();
+    }
+    // files on disk aren't modified
+    expect(fs.readFileSync(join(root, 'page.html'), 'utf8')).toBe('<a href="{{ API_URL }}">');
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,118 @@
+// module object itself, not a namespace with read-only bindings, so it can be patched
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+import fs = require('node:fs');
+import * as nodeModule from 'node:module';
+import { resolve, sep } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+type Substitute = (contents: string) => string;
+type ReadFileCallback = (err: NodeJS.ErrnoException | null, data: string | Buffer) => void;
+
+/**
+ * `node:module` with `register`, which was added in Node.js 20.6 so it's
+ * missing from older runtimes and their types.
+ */
+interface Module {
+  register?: (specifier: string, options: { data: unknown }) => void;
+}
+
+/**
+ * Maps placeholders to values of environment variables listed in
+ * `NEXTJS_SUBSTITUTION_KEYS`.
+ */
+export function getSubstitutionConfig(env: NodeJS.ProcessEnv = process.env): Record<string, string> {
+  const keys = (env.NEXTJS_SUBSTITUTION_KEYS || '').split(',').filter(Boolean);
+  const config: Record<string, string> = {};
+  for (const key of keys) {
+    // must match `NextjsBucketDeployment.getSubstitutionValue`
+    config[`{{ ${key} }}`] = env[key] ?? '';
+  }
+  return config;
+}
+
+export function createSubstitute(config: Record<string, string>): Substitute {
+  const findRegExp = new RegExp(Object.keys(config).map(escapeRegExp).join('|'), 'g');
+  return (contents) => contents.replace(findRegExp, (matched) => config[matched]);
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Preloaded (`NODE_OPTIONS=--require`) by server function container image.
+ * Replaces build time placeholders (i.e. `{{ NEXT_PUBLIC_API_URL }}`) as app
+ * files are read so read-only app doesn't have to be copied on cold start.
+ * This is the container equivalent of `NextjsBucketDeployment`'s
+ * `substitutionConfig`.
+ *
+ * Substitutes files within `root`, except `node_modules`, read with
+ * `fs.readFileSync` (which includes CommonJS modules), `fs.readFile`,
+ * `fs.promises.readFile` and ES modules. Returns function restoring `fs`.
+ */
+export function install(root: string, config: Record<string, string>): () => void {
+  const substitute = createSubstitute(config);
+  const isAppFile = (file: unknown) => {
+    if (typeof file !== 'string' && !(file instanceof URL)) return false;
+    const filePath = resolve(file instanceof URL ? fileURLToPath(file) : file);
+    return filePath.startsWith(root + sep) && !filePath.includes(`${sep}node_modules${sep}`);
+  };
+  const substituteContents = <T extends string | Buffer>(contents: T): T => {
+    if (typeof contents === 'string') return substitute(contents) as T;
+    if (!contents.includes('{{ ')) return contents;
+    const original = contents.toString('utf8');
+    const substituted = substitute(original);
+    return (substituted === original ? contents : Buffer.from(substituted)) as T;
+  };
+
+  const { readFileSync, readFile } = fs;
+  const readFilePromise = fs.promises.readFile;
+  // `fs` exports are read-only to TypeScript so patch through a mutable view
+  const patched: Pick<typeof fs, 'readFileSync' | 'readFile'> & { promises: Pick<typeof fs.promises, 'readFile'> } = fs;
+  patched.readFileSync = function (...[file, options]: Parameters<typeof readFileSync>) {
+    const contents = readFileSync(file, options);
+    return isAppFile(file) ? substituteContents(contents) : contents;
+  } as typeof readFileSync;
+  patched.readFile = function (file: fs.PathOrFileDescriptor, ...args: unknown[]) {
+    const callback = args.pop() as ReadFileCallback;
+    const [options] = args as [Parameters<typeof readFileSync>[1]];
+    if (!isAppFile(file)) return readFile(file, options, callback);
+    return readFile(file, options, (err, data) => callback(err, err ? data : substituteContents(data)));
+  } as typeof readFile;
+  patched.promises.readFile = async function (...[file, options]: Parameters<typeof readFilePromise>) {
+    const contents = await readFilePromise(file, options);
+    return isAppFile(file) ? substituteContents(contents) : contents;
+  } as typeof readFilePromise;
+
+  // ES modules aren't read with `fs` so substitute them in a loader hook
+  (nodeModule as Module).register?.(`data:text/javascript,${encodeURIComponent(ESM_LOADER)}`, {
+    data: { rootUrl: pathToFileURL(root + sep).href, config },
+  });
+
+  return () => {
+    patched.readFileSync = readFileSync;
+    patched.readFile = readFile;
+    patched.promises.readFile = readFilePromise;
+  };
+}
+
+const ESM_LOADER = `
+let rootUrl;
+let substitute;
+export function initialize(data) {
+  rootUrl = data.rootUrl;
+  const keys = Object.keys(data.config).map((k) => k.replace(/[.*+?^\${}()|[\\]\\\\]/g, '\\\\$&'));
+  const findRegExp = new RegExp(keys.join('|'), 'g');
+  substitute = (contents) => contents.replace(findRegExp, (matched) => data.config[matched]);
+}
+export async function load(url, context, nextLoad) {
+  const result = await nextLoad(url, context);
+  if (!url.startsWith(rootUrl) || url.includes('/node_modules/') || result.source == null) return result;
+  return { ...result, source: substitute(Buffer.from(result.source).toString('utf8')) };
+}
+`;
+
+const config = getSubstitutionConfig();
+if (Object.keys(config).length) {
+  install(resolve(process.env.LAMBDA_TASK_ROOT ?? process.cwd()), config);
+}
@@ -13,6 +13,8 @@ const debug = false;
 export const handler: CloudFrontRequestHandler = async (event) => {
   const request = event.Records[0].cf.request;
   if (debug) console.log('input request', JSON.stringify(request, null, 2));
+  // static files routed to bucket by CloudFront Function aren't signed
+  if (request.origin?.s3) return request;
 
   escapeQuerystring(request);
   await signRequest(request);
@@ -0,0 +1,33 @@
+import type { CloudFormationCustomResourceHandler } from 'aws-lambda';
+
+export interface CfnResponseProps {
+  event: Parameters<CloudFormationCustomResourceHandler>[0];
+  context: Parameters<CloudFormationCustomResourceHandler>[1];
+  responseStatus: 'SUCCESS' | 'FAILED';
+  responseData?: Record<string, string>;
+  physicalResourceId?: string;
+  /**
+   * Hide `responseData` from `Fn::GetAtt` outputs and describe calls.
+   */
+  noEcho?: boolean;
+}
+/**
+ * Inspired by: https://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/cfn-lambda-function-code-cfnresponsemodule.html
+ */
+export function cfnResponse(props: CfnResponseProps) {
+  const body = JSON.stringify({
+    Status: props.responseStatus,
+    Reason: 'See the details in CloudWatch Log Stream: ' + props.context.logStreamName,
+    PhysicalResourceId: props.physicalResourceId || props.context.logStreamName,
+    StackId: props.event.StackId,
+    RequestId: props.event.RequestId,
+    LogicalResourceId: props.event.LogicalResourceId,
+    Data: props.responseData,
+    NoEcho: props.noEcho,
+  });
+  return fetch(props.event.ResponseURL, {
+    method: 'PUT',
+    body,
+    headers: { 'content-type': '', 'content-length': body.length.toString() },
+  });
+}
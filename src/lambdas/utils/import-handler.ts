@@ -0,0 +1,20 @@
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+export type Handler = (...args: unknown[]) => unknown;
+
+/**
+ * Imports handler of function i.e. `index.handler` from `index.mjs`,
+ * `index.js` or `index.cjs` within task root. Dynamic import supports both
+ * ES modules and CommonJS.
+ */
+export async function importHandler(handlerName: string): Promise<Handler> {
+  const separatorIndex = handlerName.lastIndexOf('.');
+  const modulePath = join(process.env.LAMBDA_TASK_ROOT ?? process.cwd(), handlerName.slice(0, separatorIndex));
+  const exportName = handlerName.slice(separatorIndex + 1);
+  const filePath = ['.mjs', '.js', '.cjs'].map((ext) => modulePath + ext).find((p) => existsSync(p));
+  if (!filePath) throw new Error(`Cannot find module of handler "${handlerName}"`);
+  const mod = await import(pathToFileURL(filePath).href);
+  return mod[exportName] ?? mod.default?.[exportName];
+}
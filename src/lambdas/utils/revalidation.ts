@@ -0,0 +1,124 @@
+/* eslint-disable import/no-extraneous-dependencies */
+import { createHash } from 'node:crypto';
+import { posix } from 'node:path';
+import { DynamoDBClient, PutItemCommand, QueryCommand, type QueryCommandInput } from '@aws-sdk/client-dynamodb';
+import { SendMessageBatchCommand, SQSClient } from '@aws-sdk/client-sqs';
+
+const dynamodb = new DynamoDBClient({});
+const sqs = new SQSClient({});
+
+// must match open-next's default `MAX_REVALIDATE_CONCURRENCY`
+const MAX_MESSAGE_GROUPS = 10;
+// max entries of `SendMessageBatch`
+const MAX_BATCH_SIZE = 10;
+
+export interface RevalidationRequest {
+  /**
+   * Paths to revalidate i.e. `/blog/my-post`
+   */
+  paths?: string[];
+  /**
+   * Tags to revalidate. Paths tagged with them are revalidated as well.
+   */
+  tags?: string[];
+  /**
+   * Host revalidated paths are requested from.
+   */
+  host?: string;
+}
+
+/**
+ * Marks paths tagged with `tags` as revalidated and enqueues them along with
+ * `paths`. Returns all enqueued paths.
+ */
+export async function revalidate({
+  host,
+  paths = [],
+  tags = [],
+}: Required<Pick<RevalidationRequest, 'host'>> & RevalidationRequest) {
+  const allPaths = new Set(paths);
+  for (const tag of tags) {
+    for (const path of await revalidateTag(tag)) {
+      allPaths.add(path);
+    }
+  }
+  await enqueuePaths({ host, paths: [...allPaths] });
+  return [...allPaths];
+}
+
+/**
+ * Marks paths tagged with `tag` as revalidated now and returns them.
+ * @see {@link https://open-next.js.org/inner_workings/isr#tags}
+ */
+async function revalidateTag(tag: string): Promise<string[]> {
+  const buildId = process.env.NEXT_BUILD_ID ?? '';
+  const tagKey = buildDynamoKey(buildId, tag);
+  const now = Date.now().toString();
+  const paths: string[] = [];
+  let exclusiveStartKey: QueryCommandInput['ExclusiveStartKey'];
+  do {
+    const res = await dynamodb.send(
+      new QueryCommand({
+        TableName: process.env.CACHE_DYNAMO_TABLE,
+        KeyConditionExpression: '#tag = :tag',
+        ExpressionAttributeNames: { '#tag': 'tag' },
+        ExpressionAttributeValues: { ':tag': { S: tagKey } },
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+    for (const item of res.Items ?? []) {
+      const pathKey = item.path?.S;
+      if (!pathKey) continue;
+      await dynamodb.send(
+        new PutItemCommand({
+          TableName: process.env.CACHE_DYNAMO_TABLE,
+          Item: { tag: { S: tagKey }, path: { S: pathKey }, revalidatedAt: { N: now } },
+        })
+      );
+      paths.push(posix.join('/', buildId ? pathKey.replace(`${buildId}/`, '') : pathKey));
+    }
+    exclusiveStartKey = res.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+  return paths;
+}
+
+/**
+ * Sends paths to revalidation queue in the same format as open-next's server
+ * function so open-next's revalidation function can process them.
+ */
+async function enqueuePaths({ host, paths }: { host: string; paths: string[] }) {
+  const now = Date.now();
+  for (let i = 0; i < paths.length; i += MAX_BATCH_SIZE) {
+    const entries = paths.slice(i, i + MAX_BATCH_SIZE).map((url, j) => ({
+      Id: j.toString(),
+      MessageBody: JSON.stringify({ host, url }),
+      MessageDeduplicationId: hash(`${url}-${now}`),
+      MessageGroupId: generateMessageGroupId(url),
+    }));
+    const res = await sqs.send(
+      new SendMessageBatchCommand({ QueueUrl: process.env.REVALIDATION_QUEUE_URL, Entries: entries })
+    );
+    if (res.Failed?.length) {
+      throw new Error(`Failed to enqueue ${res.Failed.length} paths: ${JSON.stringify(res.Failed)}`);
+    }
+  }
+}
+
+/**
+ * Same path is always in same group so it isn't revalidated concurrently.
+ */
+function generateMessageGroupId(path: string) {
+  const groupIndex = parseInt(hash(path).substring(0, 8), 16) % MAX_MESSAGE_GROUPS;
+  return `revalidate-${groupIndex}`;
+}
+
+/**
+ * Must match open-next's `buildDynamoKey`.
+ */
+function buildDynamoKey(buildId: string, key: string) {
+  return posix.join(buildId, key);
+}
+
+function hash(value: string) {
+  return createHash('sha256').update(value).digest('hex');
+}
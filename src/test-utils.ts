@@ -0,0 +1,67 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { Construct } from 'constructs';
+import { NextjsBuild, OpenNextOutput } from './NextjsBuild';
+
+/**
+ * Returns function creating temporary Next.js apps with build output
+ * `files` (path relative to app to content). Apps are removed after test
+ * file's tests. Call within `describe`.
+ */
+export function useNextjsApps() {
+  const dirs: string[] = [];
+  afterAll(() => {
+    for (const dir of dirs) rmSync(dir, { recursive: true, force: true });
+  });
+  return (files: Record<string, string> = {}): string => {
+    const nextjsPath = mkdtempSync(join(tmpdir(), 'cdk-nextjs-test-'));
+    dirs.push(nextjsPath);
+    const allFiles = { 'package.json': JSON.stringify({ scripts: { build: 'next build' } }), ...files };
+    for (const [file, content] of Object.entries(allFiles)) {
+      mkdirSync(dirname(join(nextjsPath, file)), { recursive: true });
+      writeFileSync(join(nextjsPath, file), content);
+    }
+    return nextjsPath;
+  };
+}
+
+/**
+ * `NextjsBuild` of already built app at `nextjsPath`.
+ */
+export function createNextjsBuild(scope: Construct, nextjsPath: string, id = 'Build'): NextjsBuild {
+  return new NextjsBuild(scope, id, { nextjsPath, skipBuild: true, quiet: true });
+}
+
+/**
+ * Handler module of function bundle in build output.
+ */
+export const FUNCTION_CODE = 'export const handler = () => {};';
+
+/**
+ * `open-next.output.json` of open-next v3 build with server, image and s3
+ * origins.
+ */
+export const OPEN_NEXT_V3_OUTPUT: OpenNextOutput = {
+  origins: {
+    s3: {
+      type: 's3',
+      originPath: '_assets',
+      copy: [
+        { from: '.open-next/assets', to: '_assets', cached: true, versionedSubDir: '_next' },
+        { from: '.open-next/cache', to: '_cache', cached: false },
+      ],
+    },
+    default: { type: 'function', handler: 'index.handler', bundle: '.open-next/server-functions/default' },
+    imageOptimizer: { type: 'function', handler: 'index.handler', bundle: '.open-next/image-optimization-function' },
+  },
+  behaviors: [
+    { pattern: '_next/image*', origin: 'imageOptimizer' },
+    { pattern: '*', origin: 'default' },
+    { pattern: '_next/*', origin: 's3' },
+    { pattern: 'favicon.ico', origin: 's3' },
+  ],
+  additionalProps: {
+    warmer: { handler: 'index.handler', bundle: '.open-next/warmer-function' },
+  },
+};
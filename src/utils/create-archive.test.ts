@@ -0,0 +1,81 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import * as JSZip from 'jszip';
+import { createArchive } from './create-archive';
+
+describe('createArchive', () => {
+  const dirs: string[] = [];
+  afterAll(() => {
+    for (const dir of dirs) rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createTree(mtime: Date) {
+    const dir = mkdtempSync(join(tmpdir(), 'create-archive-test-'));
+    dirs.push(dir);
+    const files: Record<string, string> = {
+      'index.mjs': 'export const handler = () => "hello world";'.repeat(10),
+      'node_modules/.pnpm/pkg@1.0.0/node_modules/pkg/index.js': 'module.exports = 1;',
+      'empty.txt': '',
+    };
+    for (const [file, content] of Object.entries(files)) {
+      const filePath = join(dir, file);
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, content);
+      utimesSync(filePath, mtime, mtime);
+    }
+    symlinkSync('.pnpm/pkg@1.0.0/node_modules/pkg', join(dir, 'node_modules/pkg'));
+    return dir;
+  }
+
+  test('should be byte-identical for identical trees with different mtimes', () => {
+    const zipA = createArchive({ directory: createTree(new Date(2020, 1, 1)), zipFileName: 'a.zip' });
+    const zipB = createArchive({ directory: createTree(new Date(2023, 6, 6)), zipFileName: 'b.zip' });
+    dirs.push(dirname(zipA), dirname(zipB));
+    expect(readFileSync(zipA).equals(readFileSync(zipB))).toBe(true);
+  });
+
+  test('should preserve file contents and symlinks', async () => {
+    const zipPath = createArchive({ directory: createTree(new Date()), zipFileName: 'test.zip' });
+    dirs.push(dirname(zipPath));
+    const archive = await JSZip.loadAsync(readFileSync(zipPath));
+    expect(await archive.file('index.mjs')?.async('string')).toBe(
+      'export const handler = () => "hello world";'.repeat(10)
+    );
+    expect(await archive.file('empty.txt')?.async('string')).toBe('');
+    const symlink = archive.file('node_modules/pkg');
+    expect(await symlink?.async('string')).toBe('.pnpm/pkg@1.0.0/node_modules/pkg');
+    // eslint-disable-next-line no-bitwise
+    expect(((symlink?.unixPermissions as number) & 0xf000) === 0xa000).toBe(true);
+  });
+
+  test('should only archive paths matching fileGlob', async () => {
+    const zipPath = createArchive({
+      directory: createTree(new Date()),
+      zipFileName: 'test.zip',
+      fileGlob: 'node_modules',
+    });
+    dirs.push(dirname(zipPath));
+    const archive = await JSZip.loadAsync(readFileSync(zipPath));
+    expect(archive.file('index.mjs')).toBeNull();
+    expect(archive.file('node_modules/pkg')).not.toBeNull();
+  });
+
+  test('should use Zip64 records above 65535 entries', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'create-archive-test-'));
+    dirs.push(dir);
+    // 100 directories + 70,000 empty files
+    for (let i = 0; i < 100; i++) {
+      mkdirSync(join(dir, `${i}`));
+      for (let j = 0; j < 700; j++) writeFileSync(join(dir, `${i}`, `${j}`), '');
+    }
+    const zipPath = createArchive({ directory: dir, zipFileName: 'test.zip' });
+    dirs.push(dirname(zipPath));
+    const zip = readFileSync(zipPath);
+    // zip64 end of central directory record
+    expect(zip.includes(Buffer.from([0x50, 0x4b, 0x06, 0x06]))).toBe(true);
+    const archive = await JSZip.loadAsync(zip);
+    expect(Object.keys(archive.files)).toHaveLength(70_100);
+    expect(await archive.file('99/699')?.async('string')).toBe('');
+  }, 120_000);
+});
@@ -1,13 +1,48 @@
-import { execSync } from 'node:child_process';
 import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
+import { deflateRawSync } from 'node:zlib';
+import * as micromatch from 'micromatch';
+
+// above these, counts, sizes and offsets are stored in Zip64 records
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+// 1980-01-01 00:00:00, the earliest date representable in zip (MS-DOS) format
+const DOS_TIME = 0;
+// eslint-disable-next-line no-bitwise
+const DOS_DATE = (1 << 5) | 1;
+// "version made by" upper byte of 3 means UNIX so external attributes hold mode
+// eslint-disable-next-line no-bitwise
+const VERSION_MADE_BY = (3 << 8) | 20;
+const VERSION_NEEDED = 20;
+const VERSION_NEEDED_ZIP64 = 45;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+// bit 11: file names are UTF-8
+// eslint-disable-next-line no-bitwise
+const FLAGS = 1 << 11;
 
 export interface CreateArchiveArgs {
   readonly directory: string;
   readonly zipFileName: string;
+  /**
+   * Only archive paths (relative to `directory`) matching this glob. Matching
+   * directories are archived with their contents.
+   * @default "." - everything
+   */
   readonly fileGlob?: string;
+  /**
+   * Archive is built in-process and never logs so this is kept only for
+   * backwards compatibility.
+   * @deprecated
+   */
   readonly quiet?: boolean;
+  /**
+   * Files added to root of archive keyed by name within archive, i.e. a
+   * wrapper handler, so directory doesn't need to be copied first.
+   */
+  readonly additionalFiles?: Record<string, string>;
 }
 
 /**
@@ -15,35 +50,228 @@ export interface CreateArchiveArgs {
  *
  * Cannot rely on native CDK zipping b/c it disregards symlinks which is necessary
  * for PNPM monorepos. See more here: https://github.com/aws/aws-cdk/issues/9251
+ *
+ * Archive is built in-process and is byte-identical for identical directory
+ * trees: entries are sorted, timestamps are fixed and permissions normalized
+ * so asset hashes are stable across builds and machines.
  */
-export function createArchive({ directory, zipFileName, fileGlob = '.', quiet }: CreateArchiveArgs): string {
+export function createArchive({
+  directory,
+  zipFileName,
+  fileGlob = '.',
+  additionalFiles = {},
+}: CreateArchiveArgs): string {
   const zipOutDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cdk-nextjs-archive-'));
   const zipFilePath = path.join(zipOutDir, zipFileName);
 
-  // delete existing zip file
-  if (fs.existsSync(zipFilePath)) {
-    fs.unlinkSync(zipFilePath);
+  const entries = listEntries(directory).filter(
+    ({ name }) => fileGlob === '.' || micromatch.isMatch(name.replace(/\/$/, ''), [fileGlob, `${fileGlob}/**`])
+  );
+  for (const [name, filePath] of Object.entries(additionalFiles).sort(([a], [b]) => a.localeCompare(b))) {
+    entries.push({ name, mode: 0o100644, readContent: () => fs.readFileSync(filePath) });
   }
 
-  // run script to create zipfile, preserving symlinks for node_modules (e.g. pnpm structure)
-  const isWindows = process.platform === 'win32';
-  if (isWindows) {
-    // TODO: test on windows
-    execSync(`Compress-Archive -Path '${directory}\\*' -DestinationPath '${zipFilePath}' -CompressionLevel Optimal`, {
-      stdio: 'inherit',
-    });
-  } else {
-    execSync(`zip -ryq9 '${zipFilePath}' ${fileGlob}`, {
-      stdio: quiet ? 'ignore' : 'inherit',
-      cwd: directory,
-    });
-  }
-  // check output
-  if (!fs.existsSync(zipFilePath)) {
-    throw new Error(
-      `There was a problem generating the archive for ${directory}; the archive is missing in ${zipFilePath}.`
-    );
+  const fd = fs.openSync(zipFilePath, 'w');
+  try {
+    const centralDirectory: Buffer[] = [];
+    let offset = 0;
+    for (const entry of entries) {
+      const { localHeader, data, centralHeader } = createEntry(entry, offset);
+      fs.writeSync(fd, localHeader);
+      fs.writeSync(fd, data);
+      offset += localHeader.length + data.length;
+      centralDirectory.push(centralHeader);
+    }
+    const centralDirectoryBuffer = Buffer.concat(centralDirectory);
+    fs.writeSync(fd, centralDirectoryBuffer);
+    fs.writeSync(fd, createEndOfCentralDirectory(entries.length, centralDirectoryBuffer.length, offset));
+  } finally {
+    fs.closeSync(fd);
   }
 
   return zipFilePath;
 }
+
+interface ArchiveEntry {
+  /**
+   * Path within archive, always separated by `/`
+   */
+  name: string;
+  mode: number;
+  /**
+   * Read lazily so whole directory isn't held in memory
+   */
+  readContent: () => Buffer;
+}
+
+/**
+ * Lists files, directories and symlinks (without following them) sorted by path.
+ */
+function listEntries(directory: string): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  const visit = (dir: string) => {
+    for (const name of fs.readdirSync(dir).sort()) {
+      const absPath = path.join(dir, name);
+      const relPath = path.relative(directory, absPath).split(path.sep).join('/');
+      const stat = fs.lstatSync(absPath);
+      if (stat.isSymbolicLink()) {
+        entries.push({ name: relPath, mode: 0o120777, readContent: () => Buffer.from(fs.readlinkSync(absPath)) });
+      } else if (stat.isDirectory()) {
+        entries.push({ name: `${relPath}/`, mode: 0o40755, readContent: () => Buffer.alloc(0) });
+        visit(absPath);
+      } else {
+        // only keep executable bit so umask differences don't change the archive
+        // eslint-disable-next-line no-bitwise
+        const isExecutable = (stat.mode & 0o111) !== 0;
+        const mode = isExecutable ? 0o100755 : 0o100644;
+        entries.push({ name: relPath, mode, readContent: () => fs.readFileSync(absPath) });
+      }
+    }
+  };
+  visit(directory);
+  return entries;
+}
+
+/**
+ * Writes number as 64-bit little-endian integer without BigInt, which isn't
+ * available in targeted ES version.
+ */
+function writeUInt64LE(buffer: Buffer, value: number, offset: number) {
+  buffer.writeUInt32LE(value % 0x100000000, offset);
+  buffer.writeUInt32LE(Math.floor(value / 0x100000000), offset + 4);
+}
+
+/**
+ * Zip64 extended information extra field holding only given values, in order.
+ */
+function createZip64ExtraField(values: number[]) {
+  if (!values.length) return Buffer.alloc(0);
+  const extra = Buffer.alloc(4 + values.length * 8);
+  extra.writeUInt16LE(ZIP64_EXTRA_FIELD_ID, 0);
+  extra.writeUInt16LE(values.length * 8, 2);
+  values.forEach((value, i) => writeUInt64LE(extra, value, 4 + i * 8));
+  return extra;
+}
+
+/**
+ * @see https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+ */
+function createEntry(entry: ArchiveEntry, offset: number) {
+  const name = Buffer.from(entry.name, 'utf8');
+  const content = entry.readContent();
+  const crc = crc32(content);
+  const deflated = content.length ? deflateRawSync(content, { level: 9 }) : content;
+  const isDeflated = deflated.length < content.length;
+  const data = isDeflated ? deflated : content;
+  const method = isDeflated ? METHOD_DEFLATE : METHOD_STORE;
+
+  // sizes or offset that don't fit 32 bits are moved to Zip64 extra field
+  const isSizeZip64 = content.length >= MAX_SIZE || data.length >= MAX_SIZE;
+  const isOffsetZip64 = offset >= MAX_SIZE;
+  const localExtra = createZip64ExtraField(isSizeZip64 ? [content.length, data.length] : []);
+  const centralExtra = createZip64ExtraField([
+    ...(isSizeZip64 ? [content.length, data.length] : []),
+    ...(isOffsetZip64 ? [offset] : []),
+  ]);
+  const versionNeeded = centralExtra.length ? VERSION_NEEDED_ZIP64 : VERSION_NEEDED;
+
+  const localHeader = Buffer.alloc(30);
+  localHeader.writeUInt32LE(0x04034b50, 0);
+  localHeader.writeUInt16LE(versionNeeded, 4);
+  localHeader.writeUInt16LE(FLAGS, 6);
+  localHeader.writeUInt16LE(method, 8);
+  localHeader.writeUInt16LE(DOS_TIME, 10);
+  localHeader.writeUInt16LE(DOS_DATE, 12);
+  localHeader.writeUInt32LE(crc, 14);
+  localHeader.writeUInt32LE(isSizeZip64 ? MAX_SIZE : data.length, 18);
+  localHeader.writeUInt32LE(isSizeZip64 ? MAX_SIZE : content.length, 22);
+  localHeader.writeUInt16LE(name.length, 26);
+  localHeader.writeUInt16LE(localExtra.length, 28);
+
+  const centralHeader = Buffer.alloc(46);
+  centralHeader.writeUInt32LE(0x02014b50, 0);
+  centralHeader.writeUInt16LE(VERSION_MADE_BY, 4);
+  centralHeader.writeUInt16LE(versionNeeded, 6);
+  centralHeader.writeUInt16LE(FLAGS, 8);
+  centralHeader.writeUInt16LE(method, 10);
+  centralHeader.writeUInt16LE(DOS_TIME, 12);
+  centralHeader.writeUInt16LE(DOS_DATE, 14);
+  centralHeader.writeUInt32LE(crc, 16);
+  centralHeader.writeUInt32LE(isSizeZip64 ? MAX_SIZE : data.length, 20);
+  centralHeader.writeUInt32LE(isSizeZip64 ? MAX_SIZE : content.length, 24);
+  centralHeader.writeUInt16LE(name.length, 28);
+  centralHeader.writeUInt16LE(centralExtra.length, 30);
+  centralHeader.writeUInt16LE(0, 32); // comment length
+  centralHeader.writeUInt16LE(0, 34); // disk number
+  centralHeader.writeUInt16LE(0, 36); // internal attributes
+  // eslint-disable-next-line no-bitwise
+  centralHeader.writeUInt32LE((entry.mode << 16) >>> 0, 38);
+  centralHeader.writeUInt32LE(isOffsetZip64 ? MAX_SIZE : offset, 42);
+
+  return {
+    localHeader: Buffer.concat([localHeader, name, localExtra]),
+    data,
+    centralHeader: Buffer.concat([centralHeader, name, centralExtra]),
+  };
+}
+
+/**
+ * End of central directory record, preceded by Zip64 end of central directory
+ * record and locator if entry count, size or offset don't fit.
+ */
+function createEndOfCentralDirectory(entryCount: number, size: number, offset: number) {
+  const isZip64 = entryCount >= MAX_ENTRIES || size >= MAX_SIZE || offset >= MAX_SIZE;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(0, 4); // disk number
+  end.writeUInt16LE(0, 6); // disk with central directory
+  end.writeUInt16LE(isZip64 ? MAX_ENTRIES : entryCount, 8);
+  end.writeUInt16LE(isZip64 ? MAX_ENTRIES : entryCount, 10);
+  end.writeUInt32LE(isZip64 ? MAX_SIZE : size, 12);
+  end.writeUInt32LE(isZip64 ? MAX_SIZE : offset, 16);
+  end.writeUInt16LE(0, 20); // comment length
+  if (!isZip64) return end;
+
+  const zip64End = Buffer.alloc(56);
+  zip64End.writeUInt32LE(0x06064b50, 0);
+  writeUInt64LE(zip64End, zip64End.length - 12, 4); // size of remaining record
+  zip64End.writeUInt16LE(VERSION_MADE_BY, 12);
+  zip64End.writeUInt16LE(VERSION_NEEDED_ZIP64, 14);
+  zip64End.writeUInt32LE(0, 16); // disk number
+  zip64End.writeUInt32LE(0, 20); // disk with central directory
+  writeUInt64LE(zip64End, entryCount, 24);
+  writeUInt64LE(zip64End, entryCount, 32);
+  writeUInt64LE(zip64End, size, 40);
+  writeUInt64LE(zip64End, offset, 48);
+
+  const locator = Buffer.alloc(20);
+  locator.writeUInt32LE(0x07064b50, 0);
+  locator.writeUInt32LE(0, 4); // disk with zip64 end of central directory
+  writeUInt64LE(locator, offset + size, 8);
+  locator.writeUInt32LE(1, 16); // total disks
+  return Buffer.concat([zip64End, locator, end]);
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(buffer: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        // eslint-disable-next-line no-bitwise
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      // eslint-disable-next-line no-bitwise
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    // eslint-disable-next-line no-bitwise
+    crc = crcTable[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  // eslint-disable-next-line no-bitwise
+  return (crc ^ 0xffffffff) >>> 0;
+}
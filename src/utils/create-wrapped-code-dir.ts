@@ -0,0 +1,16 @@
+import { cpSync, mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+/**
+ * Copies function code to tmp folder along with wrapper handlers keyed by
+ * their file name.
+ */
+export function createWrappedCodeDir(fnDir: string, wrapperFiles: Record<string, string>): string {
+  const codeDir = mkdtempSync(join(tmpdir(), 'cdk-nextjs-fn-'));
+  cpSync(fnDir, codeDir, { recursive: true, verbatimSymlinks: true });
+  for (const [name, filePath] of Object.entries(wrapperFiles)) {
+    cpSync(filePath, join(codeDir, name));
+  }
+  return codeDir;
+}
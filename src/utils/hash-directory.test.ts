@@ -0,0 +1,57 @@
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { hashDirectory } from './hash-directory';
+
+describe('hashDirectory', () => {
+  const dirs: string[] = [];
+  afterAll(() => {
+    for (const dir of dirs) rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createTree(files: Record<string, string>) {
+    const dir = mkdtempSync(join(tmpdir(), 'hash-directory-test-'));
+    dirs.push(dir);
+    for (const [file, content] of Object.entries(files)) {
+      mkdirSync(dirname(join(dir, file)), { recursive: true });
+      writeFileSync(join(dir, file), content);
+    }
+    return dir;
+  }
+
+  function hash(directory: string, exclude?: string[]) {
+    return hashDirectory({ directory, exclude }).digest('hex');
+  }
+
+  const files = { 'app/page.tsx': 'page', 'next.config.js': 'config', 'public/a.txt': 'a' };
+
+  test('should be stable for identical trees in different locations', () => {
+    expect(hash(createTree(files))).toBe(hash(createTree(files)));
+  });
+
+  test('should change when file content, name or location changes', () => {
+    const original = hash(createTree(files));
+    expect(hash(createTree({ ...files, 'app/page.tsx': 'page2' }))).not.toBe(original);
+    expect(hash(createTree({ ...files, 'app/new.tsx': '' }))).not.toBe(original);
+    const { 'public/a.txt': a, ...rest } = files;
+    expect(hash(createTree({ ...rest, 'public/b.txt': a }))).not.toBe(original);
+    expect(hash(createTree({ ...rest, 'a.txt': a }))).not.toBe(original);
+  });
+
+  test('should skip excluded names at any depth', () => {
+    const original = hash(createTree(files));
+    const withExcluded = createTree({ ...files, 'node_modules/a.js': '', 'app/node_modules/b.js': '' });
+    expect(hash(withExcluded, ['node_modules'])).toBe(original);
+  });
+
+  test('should hash symlinks by target', () => {
+    const dirA = createTree(files);
+    const dirB = createTree(files);
+    symlinkSync('public/a.txt', join(dirA, 'link'));
+    symlinkSync('public/a.txt', join(dirB, 'link'));
+    expect(hash(dirA)).toBe(hash(dirB));
+    const dirC = createTree(files);
+    symlinkSync('next.config.js', join(dirC, 'link'));
+    expect(hash(dirC)).not.toBe(hash(dirA));
+  });
+});
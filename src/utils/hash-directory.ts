@@ -0,0 +1,40 @@
+import { createHash, Hash } from 'node:crypto';
+import { readdirSync, readFileSync, readlinkSync } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+
+export interface HashDirectoryArgs {
+  readonly directory: string;
+  /**
+   * Names of files or directories to skip at any depth, i.e. `node_modules`
+   */
+  readonly exclude?: string[];
+  /**
+   * Hash to update. If omitted, a new sha256 hash is created.
+   */
+  readonly hash?: Hash;
+}
+
+/**
+ * Updates hash with relative path and contents of every file in directory,
+ * recursively. Files are visited in sorted order so hash is stable across
+ * machines. Symlinks are hashed by their target, not followed.
+ */
+export function hashDirectory({ directory, exclude = [], hash = createHash('sha256') }: HashDirectoryArgs): Hash {
+  const visit = (dir: string) => {
+    const entries = readdirSync(dir, { withFileTypes: true }).sort((a, b) => (a.name < b.name ? -1 : 1));
+    for (const entry of entries) {
+      if (exclude.includes(entry.name)) continue;
+      const entryPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        visit(entryPath);
+      } else {
+        // normalize separators so windows and unix produce the same hash
+        hash.update(relative(directory, entryPath).split(sep).join('/') + '\0');
+        hash.update(entry.isSymbolicLink() ? readlinkSync(entryPath) : readFileSync(entryPath));
+        hash.update('\0');
+      }
+    }
+  };
+  visit(directory);
+  return hash;
+}
@@ -0,0 +1,28 @@
+export interface ImageCacheKeyArgs {
+  readonly keyPrefix: string;
+  /**
+   * Version of source images i.e. Next.js build id so changed images at the
+   * same url aren't served from cache. Omitted from key if undefined.
+   */
+  readonly sourceVersion?: string;
+  /**
+   * `url` query string of `_next/image` request i.e. `/images/shoe.png`
+   */
+  readonly url: string;
+  readonly width: number;
+  readonly quality: number;
+  /**
+   * Mime type of optimized image i.e. `image/webp`
+   */
+  readonly format: string;
+}
+
+/**
+ * Key of optimized image within image cache bucket.
+ * @see `NextjsImageCacheProps.keyPrefix`
+ */
+export function getImageCacheKey({ keyPrefix, sourceVersion, url, width, quality, format }: ImageCacheKeyArgs): string {
+  const extension = format.replace(/^image\//, '');
+  const prefix = sourceVersion ? `${keyPrefix}/${sourceVersion}` : keyPrefix;
+  return `${prefix}/${url.replace(/^\//, '')}/${width}-${quality}.${extension}`;
+}
@@ -0,0 +1,43 @@
+import * as path from 'node:path';
+
+/**
+ * Name of wrapper handler's file within function code. Distinct from
+ * `index.*` so it doesn't shadow original handler. `.cjs` as wrapper is
+ * bundled as CommonJS while function code's `package.json` may set
+ * `"type": "module"`.
+ */
+export const IMAGE_CACHE_FILE_NAME = 'nextjs-image-cache.cjs';
+
+export const IMAGE_CACHE_HANDLER = 'nextjs-image-cache.handler';
+
+/**
+ * Path of bundled wrapper handler to copy into function code as `IMAGE_CACHE_FILE_NAME`.
+ */
+export function getImageCacheFilePath(): string {
+  return path.resolve(__dirname, '..', '..', 'assets', 'lambdas', 'nextjs-image-cache', 'index.js');
+}
+
+/**
+ * Environment variables read by wrapper handler.
+ */
+export function getImageCacheEnvironment({
+  bucketName,
+  keyPrefix,
+  sourceVersion,
+  handler,
+  formats,
+}: {
+  bucketName: string;
+  keyPrefix: string;
+  sourceVersion?: string;
+  handler: string;
+  formats: string[];
+}): Record<string, string> {
+  return {
+    IMAGE_CACHE_BUCKET_NAME: bucketName,
+    IMAGE_CACHE_KEY_PREFIX: keyPrefix,
+    ...(sourceVersion ? { IMAGE_CACHE_SOURCE_VERSION: sourceVersion } : {}),
+    IMAGE_CACHE_HANDLER: handler,
+    IMAGE_CACHE_FORMATS: formats.join(','),
+  };
+}
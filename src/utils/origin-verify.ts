@@ -0,0 +1,38 @@
+import * as path from 'node:path';
+import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
+
+/**
+ * Name of wrapper handler's file within function code. Distinct from
+ * `index.*` so it doesn't shadow original handler. `.cjs` as wrapper is
+ * bundled as CommonJS while function code's `package.json` may set
+ * `"type": "module"`.
+ */
+export const ORIGIN_VERIFY_FILE_NAME = 'nextjs-origin-verify.cjs';
+
+export const ORIGIN_VERIFY_HANDLER = 'nextjs-origin-verify.handler';
+
+/**
+ * Path of bundled wrapper handler to copy into function code as `ORIGIN_VERIFY_FILE_NAME`.
+ */
+export function getOriginVerifyFilePath(): string {
+  return path.resolve(__dirname, '..', '..', 'assets', 'lambdas', 'nextjs-origin-verify', 'index.js');
+}
+
+/**
+ * Environment variables read by wrapper handler.
+ */
+export function getOriginVerifyEnvironment({
+  secret,
+  handler,
+  streaming,
+}: {
+  secret: ISecret;
+  handler: string;
+  streaming?: boolean;
+}): Record<string, string> {
+  return {
+    ORIGIN_VERIFY_SECRET_ARN: secret.secretArn,
+    ORIGIN_VERIFY_HANDLER: handler,
+    ...(streaming ? { ORIGIN_VERIFY_STREAMING: 'true' } : {}),
+  };
+}
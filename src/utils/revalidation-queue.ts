@@ -0,0 +1,18 @@
+import * as path from 'node:path';
+
+/**
+ * Name of wrapper handler's file within function code. Distinct from
+ * `index.*` so it doesn't shadow original handler. `.cjs` as wrapper is
+ * bundled as CommonJS while function code's `package.json` may set
+ * `"type": "module"`.
+ */
+export const REVALIDATION_QUEUE_FILE_NAME = 'nextjs-revalidation-queue.cjs';
+
+export const REVALIDATION_QUEUE_HANDLER = 'nextjs-revalidation-queue.handler';
+
+/**
+ * Path of bundled wrapper handler to copy into function code as `REVALIDATION_QUEUE_FILE_NAME`.
+ */
+export function getRevalidationQueueFilePath(): string {
+  return path.resolve(__dirname, '..', '..', 'assets', 'lambdas', 'nextjs-revalidation-queue', 'index.js');
+}